@@ -0,0 +1,237 @@
+/**
+ * Check mode: describe what formatting would change as a list of issues,
+ * without changing the note.
+ *
+ * The note is formatted as usual and each change between it and the formatted
+ * version becomes an issue, so the issues always match what formatting fixes.
+ */
+
+import { diffLines } from './diff';
+
+export type IssueKind =
+    | 'blank-line-between-items'
+    | 'blank-line-around-list'
+    | 'missing-separator'
+    | 'bullet-marker'
+    | 'ordered-number'
+    | 'ordered-delimiter'
+    | 'task-checkbox'
+    | 'list-indent'
+    | 'other';
+
+export interface LintFix {
+    /** Range of original lines to replace, end exclusive */
+    fromLine: number;
+    toLine: number;
+    replacement: string[];
+}
+
+export interface LintIssue {
+    /** Zero-based line in the checked content */
+    line: number;
+    kind: IssueKind;
+    message: string;
+    fix: LintFix;
+}
+
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])(\s+)(\[[ xX]?\])?/;
+
+function isBlank(line: string | undefined): boolean {
+    return line !== undefined && line.trim() === '';
+}
+
+function isListLine(line: string | undefined): boolean {
+    return line !== undefined && LIST_ITEM.test(line);
+}
+
+/**
+ * Kinds of change between an original line and its formatted version.
+ */
+function classifyLineChange(before: string, after: string): { kind: IssueKind, message: string } {
+    const old = before.match(LIST_ITEM);
+    const formatted = after.match(LIST_ITEM);
+    if (!old || !formatted) {
+        return { kind: 'other', message: 'Line is formatted differently' };
+    }
+
+    const [, oldIndent, oldMarker, , oldCheckbox] = old;
+    const [, newIndent, newMarker, , newCheckbox] = formatted;
+    if (oldIndent !== newIndent) {
+        return { kind: 'list-indent', message: 'Nested list indentation differs from the configured style' };
+    }
+    if (/\d/.test(oldMarker) && /\d/.test(newMarker)) {
+        if (oldMarker.slice(-1) !== newMarker.slice(-1)) {
+            return { kind: 'ordered-delimiter', message: `Ordered list delimiter should be "${newMarker.slice(-1)}"` };
+        }
+        if (oldMarker !== newMarker) {
+            return { kind: 'ordered-number', message: `List item should be numbered ${newMarker.slice(0, -1)}` };
+        }
+    } else if (oldMarker !== newMarker) {
+        return { kind: 'bullet-marker', message: `Bullet marker should be "${newMarker}"` };
+    }
+    if (oldCheckbox !== newCheckbox) {
+        return { kind: 'task-checkbox', message: `Task checkbox should be written as "${newCheckbox}"` };
+    }
+    return { kind: 'other', message: 'List item is formatted differently' };
+}
+
+/**
+ * Issues in `original` that formatting it into `formatted` would fix, in line
+ * order.
+ */
+export function findIssues(original: string, formatted: string): LintIssue[] {
+    const oldLines = original.split('\n');
+    const newLines = formatted.split('\n');
+    const oldContent = contentLineIndexes(oldLines);
+    const newContent = contentLineIndexes(newLines);
+
+    // The built-in engine only changes empty lines and rewrites lines in place,
+    // so its output lines up with the original line by line
+    if (oldContent.length === newContent.length) {
+        return findAlignedIssues(oldLines, newLines, oldContent, newContent);
+    }
+    return findDiffIssues(original, formatted);
+}
+
+function contentLineIndexes(lines: string[]): number[] {
+    const indexes: number[] = [];
+    lines.forEach((line, i) => {
+        if (!isBlank(line)) {
+            indexes.push(i);
+        }
+    });
+    return indexes;
+}
+
+function findAlignedIssues(oldLines: string[], newLines: string[], oldContent: number[], newContent: number[]): LintIssue[] {
+    const issues: LintIssue[] = [];
+
+    for (let k = 0; k <= oldContent.length; k++) {
+        // The empty lines before content line k (or after the last one)
+        const oldStart = k === 0 ? 0 : oldContent[k - 1] + 1;
+        const oldEnd = k === oldContent.length ? oldLines.length : oldContent[k];
+        const newStart = k === 0 ? 0 : newContent[k - 1] + 1;
+        const newEnd = k === newContent.length ? newLines.length : newContent[k];
+        const oldGap = oldLines.slice(oldStart, oldEnd);
+        const newGap = newLines.slice(newStart, newEnd);
+
+        if (oldGap.length !== newGap.length || oldGap.join('\n') !== newGap.join('\n')) {
+            const fix = { fromLine: oldStart, toLine: oldEnd, replacement: newGap };
+            const before = k === 0 ? undefined : oldLines[oldContent[k - 1]];
+            const after = k === oldContent.length ? undefined : oldLines[oldContent[k]];
+            if (oldGap.length > newGap.length) {
+                // Where an empty line should stay, the extra ones are not what makes a list loose
+                const betweenItems = isListLine(after) && before !== undefined && newGap.length === 0;
+                issues.push({
+                    line: oldStart + newGap.length,
+                    kind: betweenItems ? 'blank-line-between-items' : 'blank-line-around-list',
+                    message: betweenItems ? 'Empty line between list items makes the list loose' : 'Extra empty line around a list',
+                    fix,
+                });
+            } else if (oldGap.length < newGap.length) {
+                issues.push({
+                    line: Math.min(oldEnd, oldLines.length - 1),
+                    kind: 'missing-separator',
+                    message: isListLine(before) && isListLine(after)
+                        ? 'Missing empty line between lists with different markers'
+                        : 'Missing empty line between a list and the text around it',
+                    fix,
+                });
+            } else {
+                issues.push({ line: oldStart, kind: 'other', message: 'Empty line contains whitespace', fix });
+            }
+        }
+
+        if (k < oldContent.length && oldLines[oldContent[k]] !== newLines[newContent[k]]) {
+            const { kind, message } = classifyLineChange(oldLines[oldContent[k]], newLines[newContent[k]]);
+            issues.push({
+                line: oldContent[k],
+                kind,
+                message,
+                fix: { fromLine: oldContent[k], toLine: oldContent[k] + 1, replacement: [newLines[newContent[k]]] },
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Issues from a line diff, for formatters that add or remove content lines.
+ */
+function findDiffIssues(original: string, formatted: string): LintIssue[] {
+    const diff = diffLines(original, formatted, 0);
+    const issues: LintIssue[] = [];
+
+    for (const hunk of diff.hunks) {
+        const deleted = diff.oldLines.slice(hunk.oldStart, hunk.oldEnd);
+        const inserted = diff.newLines.slice(hunk.newStart, hunk.newEnd);
+        const before = diff.oldLines[hunk.oldStart - 1];
+        const after = diff.oldLines[hunk.oldEnd];
+
+        if (inserted.length === 0 && deleted.every(line => isBlank(line))) {
+            // Each extra empty line is reported where it is
+            const betweenItems = isListLine(after) && before !== undefined && !isBlank(before);
+            deleted.forEach((_, i) => issues.push({
+                line: hunk.oldStart + i,
+                kind: betweenItems ? 'blank-line-between-items' : 'blank-line-around-list',
+                message: betweenItems ? 'Empty line between list items makes the list loose' : 'Extra empty line around a list',
+                fix: { fromLine: hunk.oldStart + i, toLine: hunk.oldStart + i + 1, replacement: [] },
+            }));
+            continue;
+        }
+
+        if (deleted.length === 0 && inserted.every(line => isBlank(line))) {
+            // Reported on the line that should be separated from the one above
+            const line = Math.min(hunk.oldStart, diff.oldLines.length - 1);
+            issues.push({
+                line,
+                kind: 'missing-separator',
+                message: isListLine(before) && isListLine(after)
+                    ? 'Missing empty line between lists with different markers'
+                    : 'Missing empty line between a list and the text around it',
+                fix: { fromLine: hunk.oldStart, toLine: hunk.oldStart, replacement: inserted },
+            });
+            continue;
+        }
+
+        // Changed lines are compared pairwise; what is left over is reported as a whole
+        const pairs = Math.min(deleted.length, inserted.length);
+        for (let i = 0; i < pairs; i++) {
+            const { kind, message } = classifyLineChange(deleted[i], inserted[i]);
+            const isLastPair = i === pairs - 1;
+            issues.push({
+                line: hunk.oldStart + i,
+                kind,
+                message,
+                fix: {
+                    fromLine: hunk.oldStart + i,
+                    toLine: isLastPair ? hunk.oldEnd : hunk.oldStart + i + 1,
+                    replacement: isLastPair ? inserted.slice(i) : [inserted[i]],
+                },
+            });
+        }
+        if (pairs === 0) {
+            issues.push({
+                line: Math.min(hunk.oldStart, diff.oldLines.length - 1),
+                kind: 'other',
+                message: 'Lines are formatted differently',
+                fix: { fromLine: hunk.oldStart, toLine: hunk.oldEnd, replacement: inserted },
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Apply the fixes of the given issues to the content they were found in.
+ */
+export function applyFixes(content: string, issues: LintIssue[]): string {
+    const lines = content.split('\n');
+    const fixes = issues.map(issue => issue.fix).sort((a, b) => b.fromLine - a.fromLine || b.toLine - a.toLine);
+    for (const fix of fixes) {
+        lines.splice(fix.fromLine, fix.toLine - fix.fromLine, ...fix.replacement);
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,73 @@
+/**
+ * Limits on formatter processes: a counting semaphore for how many run at
+ * once, and the errors that end a run early.
+ */
+
+/** A run stopped because a newer format of the same note started */
+export class FormatCancelledError extends Error {
+    constructor() {
+        super('superseded by a newer format');
+        this.name = 'FormatCancelledError';
+    }
+}
+
+/** A formatter process killed for running longer than its timeout */
+export class FormatTimeoutError extends Error {
+    constructor(command: string, seconds: number) {
+        super(`${command} timed out after ${seconds} seconds`);
+        this.name = 'FormatTimeoutError';
+    }
+}
+
+/**
+ * Hands out at most `limit()` slots at a time, in request order. The limit is
+ * read on every release, so a changed setting applies to waiting requests.
+ */
+export class Semaphore {
+    private active = 0;
+    private waiting: (() => void)[] = [];
+
+    constructor(private limit: () => number) {}
+
+    /**
+     * Wait for a free slot and resolve with the function that frees it. Fails
+     * with a FormatCancelledError when `signal` aborts while waiting.
+     */
+    acquire(signal?: AbortSignal): Promise<() => void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(new FormatCancelledError());
+                return;
+            }
+
+            let released = false;
+            const release = () => {
+                if (!released) {
+                    released = true;
+                    this.active--;
+                    this.next();
+                }
+            };
+            const start = () => {
+                signal?.removeEventListener('abort', cancel);
+                this.active++;
+                resolve(release);
+            };
+            const cancel = () => {
+                this.waiting = this.waiting.filter(waiter => waiter !== start);
+                reject(new FormatCancelledError());
+            };
+
+            signal?.addEventListener('abort', cancel);
+            this.waiting.push(start);
+            this.next();
+        });
+    }
+
+    private next() {
+        while (this.waiting.length > 0 && this.active < Math.max(1, this.limit())) {
+            const start = this.waiting.shift() as () => void;
+            start();
+        }
+    }
+}
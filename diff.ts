@@ -0,0 +1,372 @@
+/**
+ * Line diff between a note and its formatted version, grouped into hunks that
+ * can be accepted or rejected one by one.
+ *
+ * Lines are compared with Myers' algorithm after trimming the common prefix and
+ * suffix. Formatting usually changes few lines, so this stays fast on long
+ * notes; past MAX_EDIT_DISTANCE the differing middle becomes a single change.
+ */
+
+export type DiffLineType = 'context' | 'delete' | 'insert';
+
+export interface DiffLine {
+    type: DiffLineType;
+    text: string;
+}
+
+export interface DiffHunk {
+    /** Changed range in the old lines, end exclusive */
+    oldStart: number;
+    oldEnd: number;
+    /** Range replacing it in the new lines, end exclusive */
+    newStart: number;
+    newEnd: number;
+    /** Lines to display, including surrounding context */
+    lines: DiffLine[];
+}
+
+export interface LineDiff {
+    oldLines: string[];
+    newLines: string[];
+    hunks: DiffHunk[];
+}
+
+type EditType = 'equal' | 'delete' | 'insert';
+
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Edit script turning `a` into `b`, one entry per line. Non-empty lines are
+ * matched first and the lines between matches are compared after, so empty
+ * lines that formatting adds or removes never pull unrelated lines out of
+ * alignment.
+ */
+function diffEdits(a: string[], b: string[]): EditType[] {
+    const aContent = contentIndexes(a, 0, a.length);
+    const bContent = contentIndexes(b, 0, b.length);
+    const contentEdits = diffSequences(aContent.map(i => a[i]), bContent.map(i => b[i]));
+
+    const edits: EditType[] = [];
+    let aIndex = 0;
+    let bIndex = 0;
+    let aContentIndex = 0;
+    let bContentIndex = 0;
+    for (const edit of contentEdits) {
+        if (edit === 'equal') {
+            const aLine = aContent[aContentIndex];
+            const bLine = bContent[bContentIndex];
+            edits.push(...diffSequences(a.slice(aIndex, aLine), b.slice(bIndex, bLine)), 'equal');
+            aIndex = aLine + 1;
+            bIndex = bLine + 1;
+        }
+        if (edit !== 'insert') {
+            aContentIndex++;
+        }
+        if (edit !== 'delete') {
+            bContentIndex++;
+        }
+    }
+    edits.push(...diffSequences(a.slice(aIndex), b.slice(bIndex)));
+    return edits;
+}
+
+/**
+ * Indexes of the non-empty lines from `start` to `end` (exclusive).
+ */
+function contentIndexes(lines: string[], start: number, end: number): number[] {
+    const indexes: number[] = [];
+    for (let i = start; i < end; i++) {
+        if (lines[i].trim() !== '') {
+            indexes.push(i);
+        }
+    }
+    return indexes;
+}
+
+function diffSequences(a: string[], b: string[]): EditType[] {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix &&
+           a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const middle = myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+    return [
+        ...Array<EditType>(prefix).fill('equal'),
+        ...middle,
+        ...Array<EditType>(suffix).fill('equal'),
+    ];
+}
+
+function myers(a: string[], b: string[]): EditType[] {
+    const n = a.length;
+    const m = b.length;
+    const max = n + m;
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    // For each edit distance, the furthest x reached on diagonals -d..d before it
+    const trace: Int32Array[] = [];
+
+    let distance = -1;
+    for (let d = 0; d <= max && d <= MAX_EDIT_DISTANCE; d++) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        for (let k = -d; k <= d; k += 2) {
+            let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+                ? v[offset + k + 1]
+                : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                distance = d;
+                break;
+            }
+        }
+        if (distance !== -1) {
+            break;
+        }
+    }
+
+    if (distance === -1) {
+        // Too many differences to align: replace everything
+        return [...Array<EditType>(n).fill('delete'), ...Array<EditType>(m).fill('insert')];
+    }
+
+    const edits: EditType[] = [];
+    let x = n;
+    let y = m;
+    for (let d = distance; d > 0; d--) {
+        const snapshot = trace[d];
+        const furthest = (k: number) => snapshot[k + d];
+        const k = x - y;
+        const prevK = (k === -d || (k !== d && furthest(k - 1) < furthest(k + 1))) ? k + 1 : k - 1;
+        const prevX = furthest(prevK);
+        const prevY = prevX - prevK;
+
+        while (x > prevX && y > prevY) {
+            edits.push('equal');
+            x--;
+            y--;
+        }
+        edits.push(x === prevX ? 'insert' : 'delete');
+        x = prevX;
+        y = prevY;
+    }
+    while (x > 0 && y > 0) {
+        edits.push('equal');
+        x--;
+        y--;
+    }
+
+    return edits.reverse();
+}
+
+/**
+ * Diff two texts line by line. Changes separated by at most `2 * context`
+ * unchanged lines share a hunk, as in a unified diff.
+ */
+export function diffLines(oldText: string, newText: string, context = 3): LineDiff {
+    const oldLines = oldText.split('\n');
+    const newLines = newText.split('\n');
+    const edits = diffEdits(oldLines, newLines);
+
+    // Collect runs of changed lines with their positions in both texts
+    const changes: { oldStart: number, oldEnd: number, newStart: number, newEnd: number, editStart: number, editEnd: number }[] = [];
+    let oldIndex = 0;
+    let newIndex = 0;
+    for (let i = 0; i < edits.length; i++) {
+        if (edits[i] === 'equal') {
+            oldIndex++;
+            newIndex++;
+            continue;
+        }
+        const change = { oldStart: oldIndex, oldEnd: oldIndex, newStart: newIndex, newEnd: newIndex, editStart: i, editEnd: i };
+        while (i < edits.length && edits[i] !== 'equal') {
+            if (edits[i] === 'delete') {
+                oldIndex++;
+            } else {
+                newIndex++;
+            }
+            i++;
+        }
+        change.oldEnd = oldIndex;
+        change.newEnd = newIndex;
+        change.editEnd = i;
+        changes.push(change);
+        oldIndex++;
+        newIndex++;
+    }
+
+    // Merge nearby changes
+    const merged: typeof changes = [];
+    for (const change of changes) {
+        const last = merged[merged.length - 1];
+        if (last && change.oldStart - last.oldEnd <= 2 * context) {
+            last.oldEnd = change.oldEnd;
+            last.newEnd = change.newEnd;
+            last.editEnd = change.editEnd;
+        } else {
+            merged.push({ ...change });
+        }
+    }
+
+    const hunks = merged.map(change => {
+        const lines: DiffLine[] = [];
+        for (let i = Math.max(0, change.oldStart - context); i < change.oldStart; i++) {
+            lines.push({ type: 'context', text: oldLines[i] });
+        }
+        let o = change.oldStart;
+        let n = change.newStart;
+        for (let i = change.editStart; i < change.editEnd; i++) {
+            if (edits[i] === 'equal') {
+                lines.push({ type: 'context', text: oldLines[o++] });
+                n++;
+            } else if (edits[i] === 'delete') {
+                lines.push({ type: 'delete', text: oldLines[o++] });
+            } else {
+                lines.push({ type: 'insert', text: newLines[n++] });
+            }
+        }
+        for (let i = change.oldEnd; i < Math.min(oldLines.length, change.oldEnd + context); i++) {
+            lines.push({ type: 'context', text: oldLines[i] });
+        }
+        return { oldStart: change.oldStart, oldEnd: change.oldEnd, newStart: change.newStart, newEnd: change.newEnd, lines };
+    });
+
+    return { oldLines, newLines, hunks };
+}
+
+/**
+ * The old text with only the accepted hunks applied.
+ */
+export function applyHunks(diff: LineDiff, accepted: boolean[]): string {
+    const result: string[] = [];
+    let oldIndex = 0;
+    diff.hunks.forEach((hunk, i) => {
+        result.push(...diff.oldLines.slice(oldIndex, hunk.oldStart));
+        result.push(...(accepted[i]
+            ? diff.newLines.slice(hunk.newStart, hunk.newEnd)
+            : diff.oldLines.slice(hunk.oldStart, hunk.oldEnd)));
+        oldIndex = hunk.oldEnd;
+    });
+    result.push(...diff.oldLines.slice(oldIndex));
+    return result.join('\n');
+}
+
+/**
+ * A replacement in the old text, by character offsets.
+ */
+export interface TextEdit {
+    from: number;
+    to: number;
+    insert: string;
+}
+
+function lineOffsets(lines: string[]): number[] {
+    const offsets: number[] = [];
+    let offset = 0;
+    for (const line of lines) {
+        offsets.push(offset);
+        offset += line.length + 1;
+    }
+    // One past the end, as if the text ended with a line break
+    offsets.push(offset);
+    return offsets;
+}
+
+/**
+ * Character range of lines `start` to `end` (exclusive), including the line
+ * breaks that separate them from the following line. At the end of the text
+ * the range takes the line break before the lines instead, so that empty lines
+ * there still cover a line break.
+ */
+function lineRange(lines: string[], offsets: number[], start: number, end: number): [number, number] {
+    const length = offsets[lines.length] - 1;
+    if (end < lines.length) {
+        return [offsets[start], offsets[end]];
+    }
+    return start > 0 ? [offsets[start] - 1, length] : [0, length];
+}
+
+/**
+ * Minimal character-level edits that apply the given hunks (all by default).
+ * Within a hunk, non-empty lines are paired in order when both sides have the
+ * same number of them, which is how formatting changes notes: lines are
+ * rewritten in place and empty lines come and go around them. Edits are
+ * sorted and never overlap, so positions elsewhere on a changed line, such as
+ * a cursor, keep their place in the text.
+ */
+export function textEdits(diff: LineDiff, hunks: DiffHunk[] = diff.hunks): TextEdit[] {
+    const oldText = diff.oldLines.join('\n');
+    const newText = diff.newLines.join('\n');
+    const oldOffsets = lineOffsets(diff.oldLines);
+    const newOffsets = lineOffsets(diff.newLines);
+    const edits: TextEdit[] = [];
+
+    const replace = (from: number, to: number, newFrom: number, newTo: number) => {
+        const before = oldText.slice(from, to);
+        const after = newText.slice(newFrom, newTo);
+
+        let prefix = 0;
+        while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+            prefix++;
+        }
+        let suffix = 0;
+        while (suffix < before.length - prefix && suffix < after.length - prefix &&
+               before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) {
+            suffix++;
+        }
+        if (prefix + suffix < Math.max(before.length, after.length)) {
+            edits.push({ from: from + prefix, to: to - suffix, insert: after.slice(prefix, after.length - suffix) });
+        }
+    };
+
+    for (const hunk of hunks) {
+        const [from, to] = lineRange(diff.oldLines, oldOffsets, hunk.oldStart, hunk.oldEnd);
+        const [newFrom, newTo] = lineRange(diff.newLines, newOffsets, hunk.newStart, hunk.newEnd);
+        const oldContent = contentIndexes(diff.oldLines, hunk.oldStart, hunk.oldEnd);
+        const newContent = contentIndexes(diff.newLines, hunk.newStart, hunk.newEnd);
+
+        if (oldContent.length !== newContent.length) {
+            replace(from, to, newFrom, newTo);
+            continue;
+        }
+
+        // The text of each non-empty line, and the empty lines and line breaks around them
+        let oldPosition = from;
+        let newPosition = newFrom;
+        oldContent.forEach((oldLine, k) => {
+            const newLine = newContent[k];
+            const oldLineStart = oldOffsets[oldLine];
+            const newLineStart = newOffsets[newLine];
+            replace(oldPosition, oldLineStart, newPosition, newLineStart);
+            replace(oldLineStart, oldLineStart + diff.oldLines[oldLine].length,
+                    newLineStart, newLineStart + diff.newLines[newLine].length);
+            oldPosition = oldLineStart + diff.oldLines[oldLine].length;
+            newPosition = newLineStart + diff.newLines[newLine].length;
+        });
+        replace(oldPosition, to, newPosition, newTo);
+    }
+
+    return edits;
+}
+
+/**
+ * Apply sorted, non-overlapping edits to the text they were computed for.
+ */
+export function applyTextEdits(text: string, edits: TextEdit[]): string {
+    let result = '';
+    let position = 0;
+    for (const edit of edits) {
+        result += text.slice(position, edit.from) + edit.insert;
+        position = edit.to;
+    }
+    return result + text.slice(position);
+}
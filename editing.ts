@@ -0,0 +1,69 @@
+/**
+ * Applies formatting to an open editor as targeted changes instead of
+ * replacing the note, so that what the user sees stays in place.
+ *
+ * Every selection and cursor is mapped through the changes, the line at the
+ * top of the viewport is kept at the same height, and the changes form a
+ * single undo step of their own.
+ */
+
+import { EditorView } from '@codemirror/view';
+import { TextEdit } from './diff';
+
+interface ScrollAnchor {
+    /** Document position of the first line in view */
+    pos: number;
+    /** Pixels the viewport top is below that line's top */
+    offset: number;
+}
+
+/**
+ * Height of the document top inside the scrolled content. Obsidian shows the
+ * note title and properties above the document in the same scroller.
+ */
+function documentOffset(view: EditorView): number {
+    return view.documentTop - view.scrollDOM.getBoundingClientRect().top + view.scrollDOM.scrollTop;
+}
+
+function getScrollAnchor(view: EditorView): ScrollAnchor | null {
+    const height = view.scrollDOM.scrollTop - documentOffset(view);
+    if (height <= 0) {
+        return null;
+    }
+    const block = view.lineBlockAtHeight(height);
+    return { pos: block.from, offset: height - block.top };
+}
+
+/**
+ * Apply edits, given as offsets into the text starting at `base`, in a single
+ * transaction.
+ */
+export function applyEdits(view: EditorView, edits: TextEdit[], base = 0) {
+    if (edits.length === 0) {
+        return;
+    }
+
+    const changes = view.state.changes(edits.map(edit => ({
+        from: base + edit.from,
+        to: base + edit.to,
+        insert: edit.insert,
+    })));
+    const anchor = getScrollAnchor(view);
+
+    // Without an explicit selection, the transaction maps every selection range.
+    // The history never joins 'input.format' with typing before it; setting the
+    // selection again ends the history event, so typing right after isn't
+    // joined either and one undo reverts exactly the format.
+    view.dispatch({ changes, userEvent: 'input.format' });
+    view.dispatch({ selection: view.state.selection });
+
+    if (anchor) {
+        const pos = changes.mapPos(anchor.pos, -1);
+        view.requestMeasure({
+            read: measured => documentOffset(measured) + measured.lineBlockAt(pos).top + anchor.offset,
+            write: (scrollTop, measured) => {
+                measured.scrollDOM.scrollTop = scrollTop;
+            },
+        });
+    }
+}
@@ -0,0 +1,1027 @@
+/**
+ * Built-in tight-lists formatting engine.
+ *
+ * A TypeScript port of the rules in md-tight-lists.sh that runs in-process, so
+ * formatting needs neither a Bash shell nor a subprocess per format:
+ *
+ * - YAML frontmatter is passed through untouched
+ * - Empty lines between list items are removed
+ * - Adjacent top-level lists with different markers (`-`, `*`, `+`) stay
+ *   separated by an empty line
+ * - Nested lists are separated when they change between ordered and unordered
+ * - Fenced and indented code, display math, HTML blocks and comments are passed
+ *   through unchanged, so list-like lines inside them are never touched
+ * - Continuation lines, paragraphs and blocks inside a list item stay attached
+ *   to it; only the empty lines they need to stay part of the item are kept
+ * - Blockquotes and callouts are formatted as nested documents, at any depth
+ * - Optionally, task checkboxes, ordered list numbers and delimiters, bullet
+ *   markers and nested list indentation are normalized
+ */
+
+type ListClass = 'ordered' | 'unordered';
+
+export type OrderedNumbering = 'keep' | 'sequential' | 'ones';
+export type OrderedDelimiter = 'keep' | '.' | ')';
+export type BulletMarker = 'keep' | '-' | '*' | '+';
+export type ListIndent = 'keep' | 'two-spaces' | 'four-spaces' | 'tabs';
+
+export interface FormatterOptions {
+    /** Remove empty lines between list items; when off, only normalizations apply */
+    tightenLists: boolean;
+    /** Write task checkboxes as `[ ]` and `[x]` */
+    normalizeCheckboxes: boolean;
+    orderedNumbering: OrderedNumbering;
+    orderedDelimiter: OrderedDelimiter;
+    bulletMarker: BulletMarker;
+    /** Cycle bullet markers by nesting depth, starting from `bulletMarker` */
+    alternateBulletMarkers: boolean;
+    listIndent: ListIndent;
+}
+
+export const DEFAULT_FORMATTER_OPTIONS: FormatterOptions = {
+    tightenLists: true,
+    normalizeCheckboxes: false,
+    orderedNumbering: 'keep',
+    orderedDelimiter: 'keep',
+    bulletMarker: 'keep',
+    alternateBulletMarkers: false,
+    listIndent: 'keep',
+};
+
+const BULLET_MARKERS = ['-', '*', '+'];
+
+interface ListItem {
+    indent: number;
+    /** Bullet character, or the delimiter (`.` or `)`) of an ordered item */
+    marker: string;
+    listClass: ListClass;
+    /** Number of an ordered item, updated to the number it is written with */
+    number: number | null;
+    /** Marker or delimiter the item is written with */
+    outputMarker: string;
+    /** Column where the item's content starts; continuation lines indent to it */
+    contentColumn: number;
+    /** Whether the item line has text that a lazy continuation line could extend */
+    hasContent: boolean;
+    /** Columns the item's content moved by when the item line was rewritten */
+    shift: number;
+    /** Indentation column the item line is written at */
+    outputIndent: number;
+    leading: string;
+    markerText: string;
+    spacing: string;
+    content: string;
+}
+
+const UNORDERED_ITEM = /^(\s*)([-*+])(\s+)(.*)$/;
+const ORDERED_ITEM = /^(\s*)(\d{1,9}[.)])(\s+)(.*)$/;
+const TASK_CHECKBOX = /^\[( |x|X|)\](\s|$)/;
+const FRONTMATTER_FENCE = /^---$/;
+
+const CODE_FENCE = /^\s*(`{3,}|~{3,})(.*)$/;
+const MATH_FENCE = /^\s*\$\$/;
+const HTML_RAW_OPEN = /^\s{0,3}<(script|pre|style|textarea)(\s|>|$)/i;
+const HTML_BLOCK_OPEN = /^\s{0,3}<(\/?)(address|article|aside|base|basefont|blockquote|body|caption|center|col|colgroup|dd|details|dialog|dir|div|dl|dt|fieldset|figcaption|figure|footer|form|frame|frameset|h[1-6]|head|header|hr|html|iframe|legend|li|link|main|menu|menuitem|nav|noframes|ol|optgroup|option|p|param|section|summary|table|tbody|td|tfoot|th|thead|title|tr|track|ul)(\s|\/?>|$)/i;
+const VOID_ELEMENTS = new Set(['base', 'basefont', 'col', 'frame', 'hr', 'link', 'menuitem', 'param', 'track']);
+const QUOTE_LINE = /^(\s*)>/;
+const QUOTE_MARKER = /^\s*> ?/;
+const CALLOUT_HEADER = /^\[![^\]]+\][+-]?(\s|$)/;
+const ATX_HEADING = /^\s{0,3}#{1,6}(\s|$)/;
+const BLOCKQUOTE = /^\s{0,3}>/;
+const THEMATIC_BREAK = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const HTML_TAG_LINE = /^\s{0,3}(<[A-Za-z][A-Za-z0-9-]*(\s+[^<>]*)?\/?>|<\/[A-Za-z][A-Za-z0-9-]*\s*>)\s*$/;
+
+type BlockKind = 'fenced-code' | 'indented-code' | 'math' | 'html' | 'html-comment' | 'obsidian-comment';
+
+/**
+ * Where a line sits relative to the opaque block it belongs to. Opening lines
+ * are still formatted normally (a fence or a list item ending in `%%`), while
+ * inside and closing lines must be passed through verbatim.
+ */
+type BlockPosition = 'none' | 'opening' | 'inside' | 'closing';
+
+/**
+ * Tracks fenced and indented code, display math, HTML blocks and comments
+ * (`%% %%`, `<!-- -->`) across lines.
+ */
+export class BlockContext {
+    private kind: BlockKind | null = null;
+    private closer: RegExp | null = null;
+    private fence = '';
+    private codeIndent = 0;
+
+    get isOpen(): boolean {
+        return this.kind !== null;
+    }
+
+    reset() {
+        this.kind = null;
+        this.closer = null;
+        this.fence = '';
+        this.codeIndent = 0;
+    }
+
+    /**
+     * Advance the tracker by one line.
+     *
+     * @param codeIndent Column at which an indented line here would start an
+     *   indented code block, or null where indented code cannot start (such as
+     *   directly after a paragraph line)
+     */
+    consume(line: string, codeIndent: number | null): BlockPosition {
+        if (this.kind !== null) {
+            return this.continueBlock(line);
+        }
+        return this.openBlock(line, codeIndent);
+    }
+
+    private continueBlock(line: string): BlockPosition {
+        switch (this.kind) {
+            case 'fenced-code': {
+                const match = line.match(CODE_FENCE);
+                if (match && match[1][0] === this.fence[0] && match[1].length >= this.fence.length && match[2].trim() === '') {
+                    return this.close();
+                }
+                return 'inside';
+            }
+            case 'indented-code':
+                // Empty lines are left to the caller, since trailing ones are not
+                // part of the code; any less-indented text ends the block
+                if (line.trim() === '') {
+                    return 'none';
+                }
+                if (indentWidth(line) >= this.codeIndent) {
+                    return 'inside';
+                }
+                this.reset();
+                return 'none';
+            case 'html':
+                if (this.closer) {
+                    return this.closer.test(line) ? this.close() : 'inside';
+                }
+                // Other HTML blocks end before the next empty line
+                if (line.trim() === '') {
+                    this.reset();
+                    return 'none';
+                }
+                return 'inside';
+            case 'obsidian-comment':
+                return countOccurrences(line, '%%') % 2 === 1 ? this.close() : 'inside';
+            default:
+                return this.closer && this.closer.test(line) ? this.close() : 'inside';
+        }
+    }
+
+    private openBlock(line: string, codeIndent: number | null): BlockPosition {
+        if (line.trim() === '') {
+            return 'none';
+        }
+
+        if (codeIndent !== null && indentWidth(line) >= codeIndent) {
+            // Unlike a fence, the first line of indented code is already content
+            this.open('indented-code');
+            this.codeIndent = codeIndent;
+            return 'inside';
+        }
+
+        const fence = line.match(CODE_FENCE);
+        if (fence && !(fence[1][0] === '`' && fence[2].includes('`'))) {
+            this.fence = fence[1];
+            return this.open('fenced-code');
+        }
+
+        if (MATH_FENCE.test(line)) {
+            const rest = line.trim().slice(2);
+            // `$$ ... $$` on a single line, with or without text after it, is not a block
+            return rest.includes('$$') ? 'none' : this.open('math', /\$\$\s*$/);
+        }
+
+        const raw = line.match(HTML_RAW_OPEN);
+        if (raw) {
+            const closer = new RegExp(`</${raw[1]}>`, 'i');
+            return closer.test(line) ? 'none' : this.open('html', closer);
+        }
+
+        const block = line.match(HTML_BLOCK_OPEN);
+        if (block && !VOID_ELEMENTS.has(block[2].toLowerCase()) && block[1] === '' && !/\/>\s*$/.test(line)) {
+            // An element left open on its first line extends to its closing tag
+            const closer = new RegExp(`</${block[2]}\\s*>`, 'i');
+            return closer.test(line) ? this.open('html') : this.open('html', closer);
+        }
+
+        if (block || HTML_TAG_LINE.test(line)) {
+            return this.open('html');
+        }
+
+        // Comments may open anywhere on a line, including at the end of a list item
+        const commentStart = line.lastIndexOf('<!--');
+        if (commentStart !== -1 && line.indexOf('-->', commentStart + 4) === -1) {
+            return this.open('html-comment', /-->/);
+        }
+
+        if (countOccurrences(line, '%%') % 2 === 1) {
+            return this.open('obsidian-comment');
+        }
+
+        return 'none';
+    }
+
+    private open(kind: BlockKind, closer: RegExp | null = null): BlockPosition {
+        this.kind = kind;
+        this.closer = closer;
+        return 'opening';
+    }
+
+    private close(): BlockPosition {
+        this.reset();
+        return 'closing';
+    }
+}
+
+export class TightListsFormatter {
+    private options: FormatterOptions;
+    private output: string[] = [];
+    private inList = false;
+    private prevMarker = '';
+    private prevIndent = -1;
+    private prevListClass: ListClass | '' = '';
+    private lastLine = '';
+    private blocks = new BlockContext();
+    /** Items of the current list that can still receive continuation content */
+    private openItems: ListItem[] = [];
+    /** Empty lines seen inside the current list that have not been written yet */
+    private pendingBlanks = 0;
+    /** Whether the previous line was paragraph text that a lazy line may continue */
+    private paragraphOpen = false;
+    /** Columns by which lines inside the current opaque block are moved */
+    private blockShift = 0;
+
+    constructor(options: Partial<FormatterOptions> = {}) {
+        this.options = Object.assign({}, DEFAULT_FORMATTER_OPTIONS, options);
+    }
+
+    format(content: string): string {
+        // Lines are matched without their `\r`; CRLF content is written back with CRLF
+        const crlf = content.includes('\r\n');
+        const text = crlf ? content.replace(/\r\n/g, '\n') : content;
+
+        // A trailing newline terminates the last line rather than starting a new one
+        const lines = text === '' ? [] : text.split('\n');
+        if (text.endsWith('\n')) {
+            lines.pop();
+        }
+
+        const output = this.formatLines(lines, true);
+        const formatted = output.length > 0 ? output.join('\n') + '\n' : '';
+        return crlf ? formatted.replace(/\n/g, '\r\n') : formatted;
+    }
+
+    private formatLines(lines: string[], allowFrontmatter: boolean): string[] {
+        this.reset();
+
+        let index = allowFrontmatter ? this.passFrontmatter(lines) : 0;
+        while (index < lines.length) {
+            if (this.startsQuote(lines[index])) {
+                index = this.processQuote(lines, index);
+            } else {
+                this.processLine(lines[index], index);
+                index++;
+            }
+        }
+
+        // Trailing empty lines of a list are only dropped when tightening
+        if (!this.options.tightenLists) {
+            this.flushPendingBlanks(Infinity);
+        }
+
+        return this.output;
+    }
+
+    private reset() {
+        this.output = [];
+        this.inList = false;
+        this.prevMarker = '';
+        this.prevIndent = -1;
+        this.prevListClass = '';
+        this.lastLine = '';
+        this.blocks.reset();
+        this.openItems = [];
+        this.pendingBlanks = 0;
+        this.paragraphOpen = false;
+        this.blockShift = 0;
+    }
+
+    /**
+     * Copy a leading frontmatter block to the output and return the index of the
+     * first line after it.
+     */
+    private passFrontmatter(lines: string[]): number {
+        if (lines.length === 0 || !FRONTMATTER_FENCE.test(lines[0])) {
+            return 0;
+        }
+
+        this.output.push(lines[0]);
+        for (let i = 1; i < lines.length; i++) {
+            this.output.push(lines[i]);
+            if (FRONTMATTER_FENCE.test(lines[i])) {
+                return i + 1;
+            }
+        }
+        return lines.length;
+    }
+
+    private processLine(line: string, index: number) {
+        const wasInBlock = this.blocks.isOpen;
+        const position = this.blocks.consume(line, this.indentedCodeColumn());
+        if (position === 'inside' || position === 'closing') {
+            if (!wasInBlock) {
+                // Indented code starts without an opening line of its own
+                this.blockShift = this.innermostShift();
+            }
+            // Block content inside a list item keeps its empty lines as they are
+            this.flushPendingBlanks(Infinity);
+            this.output.push(this.shiftIndent(line, this.blockShift));
+            this.lastLine = line;
+            this.paragraphOpen = false;
+            return;
+        }
+
+        const item = parseListItem(line);
+        if (item) {
+            this.processListItem(item, index, position);
+            return;
+        }
+
+        if (!isBlank(line)) {
+            this.processText(line, position);
+            return;
+        }
+
+        if (this.inList) {
+            // Held back until the next line shows whether the item needs it
+            this.pendingBlanks++;
+        } else {
+            this.output.push(line);
+        }
+        this.lastLine = line;
+        this.paragraphOpen = false;
+    }
+
+    /**
+     * Handle a non-empty line that is not a list item: it either continues an
+     * open list item or ends the list. Returns the columns the line was moved by.
+     */
+    private processText(line: string, position: BlockPosition): number {
+        const shift = this.inList ? this.continuationShift(line) : null;
+        if (shift !== null) {
+            this.flushPendingBlanks(this.options.tightenLists ? 1 : Infinity);
+            this.output.push(this.shiftIndent(line, shift));
+            this.lastLine = line;
+            this.paragraphOpen = position === 'none' && !interruptsParagraph(line);
+            this.blockShift = shift;
+            return shift;
+        }
+
+        // Not part of the list: close any open list with a single empty line
+        if (this.inList) {
+            if (this.options.tightenLists) {
+                this.pendingBlanks = 0;
+                this.output.push('');
+            } else {
+                this.flushPendingBlanks(Infinity);
+            }
+            this.leaveList();
+        }
+        this.output.push(line);
+        this.lastLine = line;
+        this.paragraphOpen = false;
+        this.blockShift = 0;
+        return 0;
+    }
+
+    private startsQuote(line: string): boolean {
+        if (this.blocks.isOpen || !QUOTE_LINE.test(line)) {
+            return false;
+        }
+        // A quote marker indented far enough is part of an indented code block
+        const codeColumn = this.indentedCodeColumn();
+        return codeColumn === null || indentWidth(line) < codeColumn;
+    }
+
+    /**
+     * Format a run of blockquote lines as a nested document and return the index
+     * of the first line after it. Callout headers (`> [!note]`) stay attached to
+     * the content below them.
+     */
+    private processQuote(lines: string[], start: number): number {
+        let end = start;
+        while (end < lines.length && QUOTE_LINE.test(lines[end])) {
+            end++;
+        }
+
+        const quoted = lines.slice(start, end);
+        const inner = quoted.map(line => line.replace(QUOTE_MARKER, ''));
+        const header = CALLOUT_HEADER.test(inner[0]) ? inner.slice(0, 1) : [];
+        const body = new TightListsFormatter(this.options).formatLines(inner.slice(header.length), false);
+        const formatted = header.concat(body);
+
+        // Untouched quotes keep their original prefixes
+        let result = quoted;
+        if (formatted.join('\n') !== inner.join('\n')) {
+            const indent = (quoted[0].match(QUOTE_LINE) as RegExpMatchArray)[1];
+            const spacer = quoted.some(line => /^\s*> /.test(line)) ? ' ' : '';
+            result = formatted.map(line => line === '' ? `${indent}>` : `${indent}>${spacer}${line}`);
+        }
+
+        // To the enclosing document the quote is a single block
+        if (result.length > 0) {
+            const shift = this.processText(result[0], 'none');
+            this.output.push(...result.slice(1).map(line => this.shiftIndent(line, shift)));
+            this.lastLine = result[result.length - 1];
+        }
+        this.paragraphOpen = false;
+        return end;
+    }
+
+    private processListItem(item: ListItem, index: number, position: BlockPosition) {
+        const separated = this.needsSeparator(item, index);
+        if (!this.options.tightenLists) {
+            this.flushPendingBlanks(Infinity);
+        } else {
+            // Empty lines between items are what make a list loose, so drop them
+            this.pendingBlanks = 0;
+            if (separated) {
+                this.output.push('');
+            }
+        }
+
+        // The new item closes every open item that it is not nested inside,
+        // including the previous item of its own list
+        let sibling: ListItem | null = null;
+        while (this.openItems.length > 0 && this.openItems[this.openItems.length - 1].contentColumn > item.indent) {
+            const closed = this.openItems.pop() as ListItem;
+            if (closed.indent <= item.indent) {
+                sibling = closed;
+            }
+        }
+        const parent = this.openItems.length > 0 ? this.openItems[this.openItems.length - 1] : null;
+        const sameList = sibling !== null && !separated &&
+            sibling.listClass === item.listClass && sibling.marker === item.marker;
+
+        this.output.push(this.rewriteItem(item, sibling, sameList, parent));
+        this.openItems.push(item);
+
+        this.inList = true;
+        this.prevMarker = item.marker;
+        this.prevIndent = item.indent;
+        this.prevListClass = item.listClass;
+        this.paragraphOpen = item.hasContent;
+        if (position === 'opening') {
+            this.blockShift = item.shift;
+        }
+    }
+
+    /**
+     * Render a list item line with the configured normalizations applied, and
+     * record how far its content moved so that continuation lines can follow.
+     *
+     * @param sibling The preceding item at the same level, if any
+     * @param sameList Whether the sibling belongs to the same list as the item
+     * @param parent The item this item is nested in, if any
+     */
+    private rewriteItem(item: ListItem, sibling: ListItem | null, sameList: boolean, parent: ListItem | null): string {
+        let marker: string;
+        if (item.listClass === 'ordered') {
+            const number = this.orderedNumber(item, sameList ? sibling : null);
+            item.number = number;
+            item.outputMarker = this.orderedDelimiter(item, sibling, sameList);
+            marker = `${number}${item.outputMarker}`;
+        } else {
+            item.outputMarker = this.bulletMarker(item, sibling, sameList);
+            marker = item.outputMarker;
+        }
+
+        let content = item.content;
+        if (this.options.normalizeCheckboxes) {
+            content = content.replace(TASK_CHECKBOX, (match, state: string, rest: string) =>
+                `[${state === '' ? ' ' : state.toLowerCase()}]${rest}`);
+        }
+
+        // A bullet followed by two more like it would read as a thematic break
+        if (item.listClass === 'unordered' && THEMATIC_BREAK.test(marker + item.spacing + content)) {
+            item.outputMarker = item.marker;
+            marker = item.markerText;
+        }
+
+        const parentShift = parent ? parent.shift : 0;
+        let leading: string;
+        if (this.options.listIndent === 'keep') {
+            item.outputIndent = Math.max(0, item.indent + parentShift);
+            leading = parentShift === 0 ? item.leading : this.renderIndent(item.outputIndent);
+        } else {
+            item.outputIndent = this.nestedIndent(parent);
+            leading = this.renderIndent(item.outputIndent);
+        }
+
+        item.shift = item.outputIndent - item.indent + marker.length - item.markerText.length;
+        return leading + marker + item.spacing + content;
+    }
+
+    /**
+     * Indentation column for an item under `parent` with normalized indentation:
+     * one indent unit past the parent's marker, but never less than the parent's
+     * content column, or the item would no longer be nested.
+     */
+    private nestedIndent(parent: ListItem | null): number {
+        if (!parent) {
+            return 0;
+        }
+        const parentContent = parent.contentColumn + parent.shift;
+        if (this.options.listIndent === 'tabs') {
+            return 4 * Math.max(parent.outputIndent / 4 + 1, Math.ceil(parentContent / 4));
+        }
+        const unit = this.options.listIndent === 'two-spaces' ? 2 : 4;
+        return Math.max(parent.outputIndent + unit, parentContent);
+    }
+
+    /**
+     * Bullet to write for an unordered item. As with ordered delimiters, a list
+     * directly following another list at the same level keeps a different
+     * bullet from it, so normalizing never merges distinct lists.
+     */
+    private bulletMarker(item: ListItem, sibling: ListItem | null, sameList: boolean): string {
+        if (sibling && sameList) {
+            return sibling.outputMarker;
+        }
+
+        let marker = this.options.bulletMarker === 'keep' ? item.marker : this.options.bulletMarker;
+        if (this.options.alternateBulletMarkers) {
+            const base = BULLET_MARKERS.indexOf(this.options.bulletMarker === 'keep' ? '-' : this.options.bulletMarker);
+            marker = BULLET_MARKERS[(base + this.openItems.length) % BULLET_MARKERS.length];
+        }
+
+        if (sibling && sibling.listClass === 'unordered' && sibling.outputMarker === marker && sibling.marker !== item.marker) {
+            marker = BULLET_MARKERS[(BULLET_MARKERS.indexOf(marker) + 1) % BULLET_MARKERS.length];
+        }
+        return marker;
+    }
+
+    /**
+     * Delimiter to write for an ordered item. A list directly following another
+     * list at the same level keeps a different delimiter from it, so the two are
+     * not merged into one list the next time the note is formatted.
+     */
+    private orderedDelimiter(item: ListItem, sibling: ListItem | null, sameList: boolean): string {
+        if (sibling && sameList) {
+            return sibling.outputMarker;
+        }
+        const delimiter = this.options.orderedDelimiter === 'keep' ? item.marker : this.options.orderedDelimiter;
+        if (sibling && sibling.listClass === 'ordered' && sibling.outputMarker === delimiter && sibling.marker !== item.marker) {
+            return delimiter === '.' ? ')' : '.';
+        }
+        return delimiter;
+    }
+
+    /**
+     * Move a line's indentation by `shift` columns, never removing more than the
+     * leading whitespace. Moved indentation is rewritten in the configured style.
+     */
+    private shiftIndent(line: string, shift: number): string {
+        if (shift === 0 || isBlank(line)) {
+            return line;
+        }
+        const leading = (line.match(/^\s*/) as RegExpMatchArray)[0];
+        const width = Math.max(0, indentWidth(leading) + shift);
+        return this.renderIndent(width) + line.slice(leading.length);
+    }
+
+    private renderIndent(width: number): string {
+        if (this.options.listIndent === 'tabs') {
+            return '\t'.repeat(Math.floor(width / 4)) + ' '.repeat(width % 4);
+        }
+        return ' '.repeat(width);
+    }
+
+    private orderedNumber(item: ListItem, previous: ListItem | null): number {
+        switch (this.options.orderedNumbering) {
+            case 'sequential':
+                return previous && previous.number !== null ? previous.number + 1 : (item.number as number);
+            case 'ones':
+                return 1;
+            default:
+                return item.number as number;
+        }
+    }
+
+    /**
+     * Columns by which a non-list line that belongs to an open list item must be
+     * moved, or null when the line does not continue the list. Content indented
+     * to an item's content column follows that item; a lazy continuation of a
+     * paragraph is left where it is. Items nested deeper than the line are closed.
+     */
+    private continuationShift(line: string): number | null {
+        const indent = indentWidth(line);
+        for (let i = this.openItems.length - 1; i >= 0; i--) {
+            if (indent >= this.openItems[i].contentColumn) {
+                this.openItems.length = i + 1;
+                return this.openItems[i].shift;
+            }
+        }
+
+        // Lazy continuation lines never follow an empty line
+        return this.pendingBlanks === 0 && this.paragraphOpen && !interruptsParagraph(line) ? 0 : null;
+    }
+
+    private innermostShift(): number {
+        return this.openItems.length > 0 ? this.openItems[this.openItems.length - 1].shift : 0;
+    }
+
+    private leaveList() {
+        this.inList = false;
+        this.prevMarker = '';
+        this.prevListClass = '';
+        this.openItems = [];
+        this.pendingBlanks = 0;
+    }
+
+    /**
+     * Write out held-back empty lines, at most `limit` of them.
+     */
+    private flushPendingBlanks(limit: number) {
+        for (let i = 0; i < Math.min(this.pendingBlanks, limit); i++) {
+            this.output.push('');
+        }
+        this.pendingBlanks = 0;
+    }
+
+    /**
+     * Column at which the current line would start indented code: four columns
+     * past the innermost item's content after an empty line in a list, or four
+     * columns after an empty line outside of lists.
+     */
+    private indentedCodeColumn(): number | null {
+        if (!this.inList) {
+            return isBlank(this.lastLine) ? 4 : null;
+        }
+        if (this.pendingBlanks === 0 || this.openItems.length === 0) {
+            return null;
+        }
+        return this.openItems[this.openItems.length - 1].contentColumn + 4;
+    }
+
+    private needsSeparator(item: ListItem, index: number): boolean {
+        if (!this.inList) {
+            // Starting a new list directly after non-list content
+            return index > 0 && this.lastLine !== '';
+        }
+
+        if (item.indent === 0 && this.prevIndent === 0) {
+            // Top-level to top-level: different markers are different lists
+            return item.marker !== this.prevMarker;
+        }
+
+        if (item.indent > 0 && this.prevIndent > 0) {
+            // Nested to nested: only ordered vs unordered matters
+            return this.prevListClass !== '' && item.listClass !== this.prevListClass;
+        }
+
+        // Moving between top level and a nested level
+        return item.indent !== this.prevIndent && item.listClass !== this.prevListClass;
+    }
+}
+
+function parseListItem(line: string): ListItem | null {
+    // `- - -` and `* * *` are thematic breaks, not list items
+    if (THEMATIC_BREAK.test(line)) {
+        return null;
+    }
+
+    const unordered = line.match(UNORDERED_ITEM);
+    const ordered = unordered ? null : line.match(ORDERED_ITEM);
+    const match = unordered || ordered;
+    if (!match) {
+        return null;
+    }
+
+    const [, leading, markerText, spacing, content] = match;
+    const indent = indentWidth(leading);
+    // Content after more than four spaces is indented code, so it starts one column in
+    const contentOffset = content === '' || spacing.length > 4 ? 1 : spacing.length;
+
+    return {
+        indent,
+        // Ordered lists are told apart by their delimiter, as bullets are by their marker
+        marker: markerText.slice(-1),
+        listClass: unordered ? 'unordered' : 'ordered',
+        number: ordered ? parseInt(markerText, 10) : null,
+        outputMarker: markerText.slice(-1),
+        contentColumn: indent + markerText.length + contentOffset,
+        hasContent: content.trim() !== '',
+        shift: 0,
+        outputIndent: indent,
+        leading,
+        markerText,
+        spacing,
+        content,
+    };
+}
+
+
+function isBlank(line: string): boolean {
+    return line.trim() === '';
+}
+
+/**
+ * Whether a line starts a block that ends a paragraph instead of continuing it.
+ */
+function interruptsParagraph(line: string): boolean {
+    return ATX_HEADING.test(line) ||
+        BLOCKQUOTE.test(line) ||
+        THEMATIC_BREAK.test(line) ||
+        CODE_FENCE.test(line) ||
+        MATH_FENCE.test(line) ||
+        HTML_BLOCK_OPEN.test(line);
+}
+
+/**
+ * Width of a line's leading whitespace in columns, with tab stops every 4.
+ */
+export function indentWidth(line: string): number {
+    let width = 0;
+    for (const char of line) {
+        if (char === ' ') {
+            width++;
+        } else if (char === '\t') {
+            width += 4 - (width % 4);
+        } else {
+            break;
+        }
+    }
+    return width;
+}
+
+function countOccurrences(line: string, token: string): number {
+    return line.split(token).length - 1;
+}
+
+/**
+ * Format Markdown content so that its lists are tight.
+ */
+export function formatTightLists(content: string, options: Partial<FormatterOptions> = {}): string {
+    return new TightListsFormatter(options).format(content);
+}
+
+/**
+ * Apply list normalizations without changing empty lines, for output that
+ * another formatter (such as mdformat) has already made tight.
+ */
+export function normalizeLists(content: string, options: Partial<FormatterOptions> = {}): string {
+    return new TightListsFormatter(Object.assign({}, options, { tightenLists: false })).format(content);
+}
+
+const EXEMPT_DIRECTIVE = /^\s*(?:<!--\s*tightlists[:-]\s*(disable|enable|ignore)\s*-->|%%\s*tightlists[:-]\s*(disable|enable|ignore)\s*%%)\s*$/i;
+
+export interface ContentSegment {
+    text: string;
+    /** Whether the segment must be left exactly as written */
+    exempt: boolean;
+}
+
+/**
+ * Split content into the parts that may be formatted and the parts exempted by
+ * inline directives, written as HTML or Obsidian comments on their own line:
+ *
+ * - `<!-- tightlists: disable -->` ... `<!-- tightlists: enable -->` exempts
+ *   everything in between (to the end of the note if never re-enabled)
+ * - `<!-- tightlists: ignore -->` exempts the list that follows it
+ *
+ * `%% tightlists-disable %%` style comments and either separator (`:` or `-`)
+ * work the same. Directive lines are part of the exempt segments, and joining
+ * all segment texts gives back the original content.
+ */
+export function splitExemptRegions(content: string): ContentSegment[] {
+    const lines = content.split('\n');
+    // Lines of CRLF content are matched without their `\r`
+    const stripped = lines.map(line => line.replace(/\r$/, ''));
+    const segments: ContentSegment[] = [];
+    const blocks = new BlockContext();
+    let start = 0;
+
+    const pushSegment = (end: number, exempt: boolean) => {
+        if (end > start) {
+            const text = lines.slice(start, end).join('\n') + (end < lines.length ? '\n' : '');
+            segments.push({ text, exempt });
+        }
+        start = end;
+    };
+
+    let index = 0;
+    while (index < lines.length) {
+        const position = blocks.consume(stripped[index], null);
+        const directive = position === 'none' ? stripped[index].match(EXEMPT_DIRECTIVE) : null;
+        if (!directive) {
+            index++;
+            continue;
+        }
+
+        const command = (directive[1] || directive[2]).toLowerCase();
+        if (command === 'enable') {
+            // Stray enable directives have nothing to close
+            index++;
+            continue;
+        }
+
+        pushSegment(index, false);
+        const end = command === 'disable' ? findRegionEnd(stripped, index + 1) : findListEnd(stripped, index + 1);
+        pushSegment(end, true);
+        index = end;
+    }
+    pushSegment(lines.length, false);
+
+    return segments;
+}
+
+/**
+ * Index of the line after the `enable` directive closing a disabled region.
+ */
+function findRegionEnd(lines: string[], from: number): number {
+    for (let i = from; i < lines.length; i++) {
+        const directive = lines[i].match(EXEMPT_DIRECTIVE);
+        if (directive && (directive[1] || directive[2]).toLowerCase() === 'enable') {
+            return i + 1;
+        }
+    }
+    return lines.length;
+}
+
+/**
+ * Index of the line after the list that starts at or after `from`. The list
+ * ends at the first unindented text after an empty line that is not another
+ * list item, so loose lists with multiple paragraphs are covered whole.
+ */
+function findListEnd(lines: string[], from: number): number {
+    let index = from;
+    while (index < lines.length && isBlank(lines[index])) {
+        index++;
+    }
+
+    let afterBlank = false;
+    for (; index < lines.length; index++) {
+        const line = lines[index];
+        if (isBlank(line)) {
+            afterBlank = true;
+            continue;
+        }
+        if (afterBlank && indentWidth(line) === 0 && !parseListItem(line)) {
+            break;
+        }
+        afterBlank = false;
+    }
+
+    // Trailing empty lines are left to the formatted content after the list
+    while (index > from && isBlank(lines[index - 1])) {
+        index--;
+    }
+    return index;
+}
+
+/**
+ * First and last line (inclusive) of the list block around lines `from` to
+ * `to`: the list items, their indented content, lazy continuation lines and the
+ * empty lines between them. Plain text after an empty line ends the block.
+ * Lines outside of any list give a block of just themselves.
+ */
+export function findListBlock(lines: string[], from: number, to: number): { start: number, end: number } {
+    const isListLine = (line: string) => parseListItem(line) !== null || (!isBlank(line) && indentWidth(line) > 0);
+
+    let start = from;
+    while (start > 0) {
+        let above = start - 1;
+        while (above > 0 && isBlank(lines[above])) {
+            above--;
+        }
+        // Empty lines belong to the block only when the list goes on above them
+        if (!isListLine(lines[above])) {
+            break;
+        }
+        start = above;
+    }
+
+    let end = to;
+    let inList = lines.slice(start, end + 1).some(isListLine);
+    while (end < lines.length - 1) {
+        let below = end + 1;
+        while (inList && below < lines.length - 1 && isBlank(lines[below])) {
+            below++;
+        }
+        const next = lines[below];
+        // Text right after a non-empty line continues it lazily
+        const lazy = below === end + 1 && !isBlank(lines[end]) && !isBlank(next);
+        if (isBlank(next) || (!isListLine(next) && !lazy)) {
+            break;
+        }
+        inList = inList || isListLine(next);
+        end = below;
+    }
+
+    return { start, end };
+}
+
+/**
+ * Merge line blocks that overlap or touch, sorted by their first line.
+ */
+export function mergeLineBlocks(blocks: { start: number, end: number }[]): { start: number, end: number }[] {
+    const merged: { start: number, end: number }[] = [];
+    for (const block of [...blocks].sort((a, b) => a.start - b.start)) {
+        const last = merged[merged.length - 1];
+        if (last && block.start <= last.end + 1) {
+            last.end = Math.max(last.end, block.end);
+        } else {
+            merged.push({ ...block });
+        }
+    }
+    return merged;
+}
+
+/**
+ * A block without its leading and trailing empty lines, or null when it has
+ * nothing else.
+ */
+export function trimBlankLines(lines: string[], block: { start: number, end: number }): { start: number, end: number } | null {
+    let { start, end } = block;
+    while (start <= end && isBlank(lines[start])) {
+        start++;
+    }
+    while (end >= start && isBlank(lines[end])) {
+        end--;
+    }
+    return start <= end ? { start, end } : null;
+}
+
+/**
+ * Whether lines `start` to `end` (inclusive) can be formatted on their own,
+ * apart from the note: they are set apart by empty lines, they are not quoted
+ * or in the frontmatter, and no code, math or HTML block, comment or exempted
+ * region is open at them or starts among them.
+ */
+export function isStandaloneBlock(lines: string[], start: number, end: number): boolean {
+    // Formatting may need to separate the block from the text around it
+    if ((start > 0 && !isBlank(lines[start - 1])) || (end < lines.length - 1 && !isBlank(lines[end + 1]))) {
+        return false;
+    }
+    if (lines.slice(start, end + 1).some(line => QUOTE_LINE.test(line))) {
+        return false;
+    }
+
+    if (lines.length > 0 && FRONTMATTER_FENCE.test(lines[0])) {
+        const closing = lines.findIndex((line, index) => index > 0 && FRONTMATTER_FENCE.test(line));
+        if (closing === -1 || start <= closing) {
+            return false;
+        }
+    }
+
+    const blocks = new BlockContext();
+    for (let i = 0; i <= end; i++) {
+        const position = blocks.consume(lines[i], null);
+        if (i >= start && position !== 'none') {
+            return false;
+        }
+    }
+
+    let line = 0;
+    for (const segment of splitExemptRegions(lines.join('\n'))) {
+        const count = segment.text.split('\n').length - 1;
+        if (segment.exempt && line <= end && line + count >= start) {
+            return false;
+        }
+        line += count;
+    }
+    return true;
+}
+
+/**
+ * Put formatted blocks in place of the lines they were formatted from. Blocks
+ * are sorted and don't overlap; trailing newlines of the formatted text are
+ * dropped, since the line after each block follows it.
+ */
+export function spliceBlocks(lines: string[], blocks: { start: number, end: number }[], formatted: string[]): string {
+    const result = [...lines];
+    // From the last block up, so the line numbers of the others stay valid
+    for (let i = blocks.length - 1; i >= 0; i--) {
+        const { start, end } = blocks[i];
+        result.splice(start, end - start + 1, ...formatted[i].replace(/\n+$/, '').split('\n'));
+    }
+    return result.join('\n');
+}
+
+/**
+ * Check with the built-in engine that formatting the blocks on their own
+ * agrees with formatting the whole note: formatting the note with the blocks
+ * formatted must give the same as formatting the original note.
+ */
+export function formatsLikeWholeNote(lines: string[], blocks: { start: number, end: number }[],
+                                     options: Partial<FormatterOptions> = {}): boolean {
+    const formatted = blocks.map(block => formatTightLists(lines.slice(block.start, block.end + 1).join('\n') + '\n', options));
+    const incremental = spliceBlocks(lines, blocks, formatted);
+    return formatTightLists(incremental, options) === formatTightLists(lines.join('\n'), options);
+}
@@ -0,0 +1,137 @@
+/**
+ * Formatting history: a ring buffer of what the plugin did to which note, and
+ * when, kept so that formats can be audited and reverted later.
+ *
+ * Changed notes are not stored whole. An entry keeps the edits that turn the
+ * formatted note back into the original, and a hash of the formatted note to
+ * check that it is still what the edits apply to.
+ */
+
+import { LineDiff, TextEdit } from './diff';
+
+export type FormatTrigger =
+    | 'manual'
+    | 'selection'
+    | 'preview'
+    | 'batch'
+    | 'review'
+    | 'delay'
+    | 'file-open'
+    | 'focus-gain'
+    | 'focus-loss'
+    | 'save'
+    | 'create'
+    | 'external-change';
+
+export type HistoryOutcome = 'changed' | 'unchanged' | 'skipped' | 'failed';
+
+export interface HistoryEntry {
+    id: number;
+    time: number;
+    path: string;
+    trigger: FormatTrigger;
+    /** Formatter that ran, such as "mdformat" or "built-in engine" */
+    engine: string;
+    outcome: HistoryOutcome;
+    linesChanged: number;
+    /** Milliseconds from reading the note to writing it */
+    duration: number;
+    /** Why the format was skipped or failed */
+    message?: string;
+    /** Hash of the note right after the format */
+    afterHash?: string;
+    /** Edits that restore the note from right before the format */
+    revert?: TextEdit[];
+    reverted?: boolean;
+}
+
+export const HISTORY_LIMIT = 500;
+
+export class FormatHistory {
+    private entries: HistoryEntry[] = [];
+    private nextId = 1;
+
+    constructor(private limit = HISTORY_LIMIT) {}
+
+    load(entries: HistoryEntry[]) {
+        this.entries = entries.slice(-this.limit);
+        this.nextId = this.entries.reduce((max, entry) => Math.max(max, entry.id), 0) + 1;
+    }
+
+    /**
+     * Add an entry, dropping the oldest one when the log is full.
+     */
+    add(entry: Omit<HistoryEntry, 'id'>): HistoryEntry {
+        const added = { ...entry, id: this.nextId++ };
+        this.entries.push(added);
+        if (this.entries.length > this.limit) {
+            this.entries.splice(0, this.entries.length - this.limit);
+        }
+        return added;
+    }
+
+    get(id: number): HistoryEntry | undefined {
+        return this.entries.find(entry => entry.id === id);
+    }
+
+    /** Entries from newest to oldest */
+    list(): HistoryEntry[] {
+        return this.entries.slice().reverse();
+    }
+
+    clear() {
+        this.entries = [];
+    }
+
+    toJSON(): HistoryEntry[] {
+        return this.entries;
+    }
+}
+
+/**
+ * 32-bit FNV-1a hash of the text, with its length to make collisions between
+ * versions of the same note even less likely.
+ */
+export function contentHash(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `${text.length}:${(hash >>> 0).toString(16)}`;
+}
+
+/**
+ * Lines changed by a diff, counting a replaced line once.
+ */
+export function countChangedLines(diff: LineDiff): number {
+    return diff.hunks.reduce((count, hunk) =>
+        count + Math.max(hunk.oldEnd - hunk.oldStart, hunk.newEnd - hunk.newStart), 0);
+}
+
+export interface FileStatistics {
+    path: string;
+    formats: number;
+    changed: number;
+    failed: number;
+    linesChanged: number;
+    lastTime: number;
+}
+
+/**
+ * Totals per note, most formatted first.
+ */
+export function summarizeByFile(entries: HistoryEntry[]): FileStatistics[] {
+    const byPath = new Map<string, FileStatistics>();
+    for (const entry of entries) {
+        const stats = byPath.get(entry.path) ??
+            { path: entry.path, formats: 0, changed: 0, failed: 0, linesChanged: 0, lastTime: 0 };
+        stats.formats++;
+        stats.changed += entry.outcome === 'changed' ? 1 : 0;
+        stats.failed += entry.outcome === 'failed' ? 1 : 0;
+        stats.linesChanged += entry.linesChanged;
+        stats.lastTime = Math.max(stats.lastTime, entry.time);
+        byPath.set(entry.path, stats);
+    }
+    return [...byPath.values()].sort((a, b) => b.formats - a.formats || b.lastTime - a.lastTime);
+}
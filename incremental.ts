@@ -0,0 +1,79 @@
+/**
+ * Tracks which parts of a note were edited since it was last formatted, so
+ * auto-format can limit itself to the lists around them.
+ *
+ * Edited ranges are kept as document offsets and move along with later edits;
+ * formatting clears them with `clearTouchedRanges`.
+ */
+
+import { StateEffect, StateField } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+
+export interface LineRange {
+    /** First and last line, zero-based and inclusive */
+    start: number;
+    end: number;
+}
+
+interface OffsetRange {
+    from: number;
+    to: number;
+}
+
+const clearTouched = StateEffect.define<null>();
+
+function addRange(ranges: OffsetRange[], range: OffsetRange): OffsetRange[] {
+    const merged: OffsetRange[] = [];
+    let added = { ...range };
+    for (const existing of ranges) {
+        if (existing.to < added.from || existing.from > added.to) {
+            merged.push(existing);
+        } else {
+            added = { from: Math.min(existing.from, added.from), to: Math.max(existing.to, added.to) };
+        }
+    }
+    merged.push(added);
+    return merged.sort((a, b) => a.from - b.from);
+}
+
+export const touchedRanges = StateField.define<OffsetRange[]>({
+    create: () => [],
+    update(ranges, transaction) {
+        if (transaction.effects.some(effect => effect.is(clearTouched))) {
+            return [];
+        }
+        if (!transaction.docChanged) {
+            return ranges;
+        }
+
+        let mapped = ranges.map(range => ({
+            from: transaction.changes.mapPos(range.from, -1),
+            to: transaction.changes.mapPos(range.to, 1),
+        }));
+        // Undoing a format must not get the lists it restored formatted again
+        if (transaction.isUserEvent('undo') || transaction.isUserEvent('redo')) {
+            return mapped;
+        }
+        transaction.changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+            mapped = addRange(mapped, { from: fromB, to: toB });
+        });
+        return mapped;
+    },
+});
+
+/**
+ * Lines edited since the last call to `clearTouchedRanges`.
+ */
+export function getTouchedLines(view: EditorView): LineRange[] {
+    const doc = view.state.doc;
+    return (view.state.field(touchedRanges, false) ?? []).map(range => ({
+        start: doc.lineAt(Math.min(range.from, doc.length)).number - 1,
+        end: doc.lineAt(Math.min(range.to, doc.length)).number - 1,
+    }));
+}
+
+export function clearTouchedRanges(view: EditorView) {
+    if (view.state.field(touchedRanges, false) !== undefined) {
+        view.dispatch({ effects: clearTouched.of(null) });
+    }
+}
@@ -0,0 +1,91 @@
+/**
+ * Editor decorations for check mode: a gutter marker and a highlighted line
+ * for every issue, with the issue messages as hover text.
+ *
+ * Issues are pushed into an editor with `showLintIssues`; until the next
+ * check, the markers move along with edits.
+ */
+
+import { Extension, RangeSet, RangeSetBuilder, StateEffect, StateField, Text } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, gutter, GutterMarker } from '@codemirror/view';
+import { LintIssue } from './check';
+
+const setLintIssues = StateEffect.define<LintIssue[]>();
+
+class IssueMarker extends GutterMarker {
+    constructor(private message: string) {
+        super();
+    }
+
+    eq(other: IssueMarker): boolean {
+        return other.message === this.message;
+    }
+
+    toDOM(): Node {
+        const el = document.createElement('div');
+        el.className = 'tight-lists-lint-marker';
+        el.textContent = '●';
+        el.title = this.message;
+        return el;
+    }
+}
+
+interface LintDecorations {
+    lines: DecorationSet;
+    markers: RangeSet<GutterMarker>;
+}
+
+function buildDecorations(doc: Text, issues: LintIssue[]): LintDecorations {
+    const messages = new Map<number, string[]>();
+    for (const issue of issues) {
+        if (issue.line < doc.lines) {
+            messages.set(issue.line, [...(messages.get(issue.line) ?? []), issue.message]);
+        }
+    }
+
+    const lines = new RangeSetBuilder<Decoration>();
+    const markers = new RangeSetBuilder<GutterMarker>();
+    for (const line of [...messages.keys()].sort((a, b) => a - b)) {
+        const message = (messages.get(line) as string[]).join('\n');
+        const from = doc.line(line + 1).from;
+        lines.add(from, from, Decoration.line({ class: 'tight-lists-lint-line', attributes: { title: message } }));
+        markers.add(from, from, new IssueMarker(message));
+    }
+    return { lines: lines.finish(), markers: markers.finish() };
+}
+
+const lintDecorations = StateField.define<LintDecorations>({
+    create: () => ({ lines: Decoration.none, markers: RangeSet.empty }),
+    update(value, transaction) {
+        for (const effect of transaction.effects) {
+            if (effect.is(setLintIssues)) {
+                return buildDecorations(transaction.state.doc, effect.value);
+            }
+        }
+        if (transaction.docChanged) {
+            return { lines: value.lines.map(transaction.changes), markers: value.markers.map(transaction.changes) };
+        }
+        return value;
+    },
+    provide: field => EditorView.decorations.from(field, value => value.lines),
+});
+
+export function lintExtension(): Extension {
+    return [
+        lintDecorations,
+        gutter({
+            class: 'tight-lists-lint-gutter',
+            markers: view => view.state.field(lintDecorations).markers,
+        }),
+    ];
+}
+
+/**
+ * Replace the issues shown in an editor. Editors without the extension
+ * ignore them.
+ */
+export function showLintIssues(view: EditorView, issues: LintIssue[]) {
+    if (view.state.field(lintDecorations, false) !== undefined) {
+        view.dispatch({ effects: setLintIssues.of(issues) });
+    }
+}
@@ -1,59 +1,519 @@
-import { App, Editor, MarkdownView, Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder, Modal } from 'obsidian';
-import { spawn } from 'child_process';
-import * as path from 'path';
-import * as fs from 'fs';
+import { AbstractInputSuggest, App, ButtonComponent, Command, DropdownComponent, Editor, ItemView, MarkdownFileInfo, MarkdownView, Menu, Notice, Platform, Plugin, PluginSettingTab, Setting, TFile, TFolder, Modal, FuzzySuggestModal, WorkspaceLeaf, getAllTags } from 'obsidian';
+import type * as ChildProcess from 'child_process';
+import type * as Path from 'path';
+import type * as Fs from 'fs';
+import type * as Os from 'os';
+import { findListBlock, formatsLikeWholeNote, formatTightLists, isStandaloneBlock, mergeLineBlocks, spliceBlocks, trimBlankLines, normalizeLists, splitExemptRegions, BulletMarker, FormatterOptions, ListIndent, OrderedDelimiter, OrderedNumbering } from './formatter';
+import { describeRule, findMatchingRule, FormatRule, FormatRuleAction, FormatRuleTarget, RuleSubject } from './rules';
+import { applyHunks, applyTextEdits, diffLines, textEdits, DiffHunk, LineDiff } from './diff';
+import { applyEdits } from './editing';
+import { applyFixes, findIssues, LintIssue } from './check';
+import { lintExtension, showLintIssues } from './lint';
+import { clearTouchedRanges, getTouchedLines, touchedRanges } from './incremental';
+import { FormatCancelledError, FormatTimeoutError, Semaphore } from './concurrency';
+import { isValidWrap, mdformatFlags, mdformatToml, parseInstalledExtensions, MdformatEndOfLine, MdformatOptions } from './mdformat';
+import { describeStep, expandArguments, newPipelineStep, parseArguments, PipelineStep, PipelineStepInput, PipelineStepKind } from './pipeline';
+import { contentHash, countChangedLines, summarizeByFile, FormatHistory, FormatTrigger, HistoryEntry, HistoryOutcome } from './history';
+import type { Extension } from '@codemirror/state';
+import type { EditorView } from '@codemirror/view';
+
+// Node built-ins only exist in the desktop app. They are required lazily so the
+// plugin still loads on mobile, where only the built-in engine is available.
+/* eslint-disable @typescript-eslint/no-var-requires */
+const { spawn } = (Platform.isDesktopApp ? require('child_process') : {}) as typeof ChildProcess;
+const path = (Platform.isDesktopApp ? require('path') : {}) as typeof Path;
+const fs = (Platform.isDesktopApp ? require('fs') : {}) as typeof Fs;
+const os = (Platform.isDesktopApp ? require('os') : {}) as typeof Os;
+/* eslint-enable @typescript-eslint/no-var-requires */
 
 interface TightListsSettings {
     autoFormatEnabled: boolean;
     useMdformat: boolean;
+    /** mdformat executable, virtualenv or install prefix; empty to search the usual places */
+    mdformatExecutable: string;
+    mdformatExtensions: string[];
+    mdformatWrap: string;
+    mdformatNumber: boolean;
+    mdformatEndOfLine: MdformatEndOfLine;
+    /** Pass mdformat options in a generated .mdformat.toml instead of flags */
+    mdformatConfigFile: boolean;
+    useShellScript: boolean;
+    /** Seconds before an mdformat or shell script process is killed */
+    formatterTimeout: number;
+    maxFormatterProcesses: number;
+    usePipeline: boolean;
+    pipeline: PipelineStep[];
+    normalizeCheckboxes: boolean;
+    orderedListNumbering: OrderedNumbering;
+    orderedListDelimiter: OrderedDelimiter;
+    bulletMarker: BulletMarker;
+    alternateBulletMarkers: boolean;
+    listIndent: ListIndent;
     enableDelayBasedFormatting: boolean;
     debounceDelay: number;
     eventBasedFormatting: boolean;
     formatOnFileOpen: boolean;
     formatOnFocusGain: boolean;
     formatOnFocusLoss: boolean;
-    folderRules: Record<string, { enabled: boolean }>;
+    formatOnSave: boolean;
+    formatOnCreate: boolean;
+    formatOnExternalChange: boolean;
+    folderRules: Record<string, FolderRule>;
+    formatRules: FormatRule[];
+    checkMode: boolean;
+}
+
+type FormatterEngine = 'builtin' | 'mdformat' | 'script' | 'pipeline';
+
+const ENGINE_NAMES: Record<FormatterEngine, string> = {
+    builtin: 'built-in engine',
+    mdformat: 'mdformat',
+    script: 'md-tight-lists.sh',
+    pipeline: 'formatter pipeline',
+};
+
+/**
+ * Settings a folder rule can set for the notes in its folder. Unset fields
+ * fall back to the global settings. An engine replaces all of the global
+ * formatter toggles.
+ */
+type FolderProfile = { engine?: FormatterEngine } & Partial<Pick<TightListsSettings,
+    'mdformatExtensions' |
+    'enableDelayBasedFormatting' | 'debounceDelay' |
+    'eventBasedFormatting' | 'formatOnFileOpen' | 'formatOnFocusGain' | 'formatOnFocusLoss' |
+    'formatOnSave' | 'formatOnCreate' | 'formatOnExternalChange' |
+    'normalizeCheckboxes' | 'orderedListNumbering' | 'orderedListDelimiter' |
+    'bulletMarker' | 'alternateBulletMarkers' | 'listIndent'>>;
+
+/** Profile options that are global settings of the same name */
+type ProfileSetting = Exclude<keyof FolderProfile, 'engine'>;
+
+interface FolderRule {
+    enabled: boolean;
+    profile: FolderProfile;
+}
+
+/**
+ * Formatting behavior a note sets for itself in its frontmatter. Note-level
+ * overrides take precedence over folder rules and global settings.
+ */
+interface NoteOverrides {
+    /** False when the note opts out of formatting entirely (`tightlists: false`) */
+    formattingEnabled: boolean;
+    /** Whether the note is auto-formatted, when the note decides it */
+    autoFormat?: boolean;
+    /** Formatter settings that replace the folder and global values */
+    settings: Partial<TightListsSettings>;
+}
+
+interface FormatResult {
+    outcome: 'changed' | 'unchanged' | 'skipped' | 'failed';
+    /** Why a file was skipped or failed */
+    reason?: string;
+    /** Skipped because a newer format of the note started */
+    cancelled?: boolean;
+    /** The note before and after, when it changed */
+    change?: FormatUndoEntry;
+}
+
+/** Formatted by the diagnostics test run */
+const SAMPLE_DOCUMENT = `---
+title: Sample
+---
+
+# Sample
+
+- First item
+
+- Second item
+    - Nested item
+
+1. First step
+
+2. Second step
+`;
+
+/**
+ * An external formatter run that failed, as shown in the diagnostics.
+ */
+interface FormatterFailure {
+    time: number;
+    command: string;
+    args: string[];
+    message: string;
+    stderr: string;
+}
+
+/**
+ * A note's exact content before and after a format, to undo it.
+ */
+interface FormatUndoEntry {
+    path: string;
+    before: string;
+    after: string;
+}
+
+/**
+ * Outcome of formatting many files at once, as listed in the batch report.
+ */
+interface BatchReport {
+    changed: string[];
+    unchanged: string[];
+    skipped: { path: string, reason: string }[];
+    failed: { path: string, reason: string }[];
+    cancelled: boolean;
+}
+
+function emptyBatchReport(): BatchReport {
+    return { changed: [], unchanged: [], skipped: [], failed: [], cancelled: false };
+}
+
+/** Milliseconds without edits before check mode checks the note again */
+const CHECK_DELAY = 1000;
+
+/**
+ * Milliseconds a new note must go without changes before it is formatted, so
+ * that Templater or core templates have finished inserting their content.
+ */
+const CREATE_SETTLE_DELAY = 1500;
+
+/** Milliseconds a note changed on disk must go without changes before it is formatted */
+const EXTERNAL_CHANGE_DELAY = 1000;
+
+/** How often a note is formatted again when it changes while being formatted */
+const MAX_FORMAT_ATTEMPTS = 3;
+
+/** Milliseconds a formatter process gets to exit before it is killed forcibly */
+const KILL_GRACE_PERIOD = 2000;
+
+interface ProcessOptions {
+    cwd?: string;
+    /** Seconds before the process is killed */
+    timeout: number;
+    signal?: AbortSignal;
+}
+
+interface ProcessResult {
+    code: number | null;
+    stdout: string;
+    stderr: string;
+}
+
+/** How many files a batch format reads and formats at the same time */
+const BATCH_CONCURRENCY = 4;
+
+const VIEW_TYPE_HISTORY = 'tight-lists-history';
+
+const TRIGGER_NAMES: Record<FormatTrigger, string> = {
+    'manual': 'Manual',
+    'selection': 'Selection',
+    'preview': 'Preview',
+    'batch': 'Batch',
+    'review': 'Batch review',
+    'delay': 'After typing',
+    'file-open': 'File open',
+    'focus-gain': 'Focus gained',
+    'focus-loss': 'Focus lost',
+    'save': 'Save',
+    'create': 'New note',
+    'external-change': 'External change',
+};
+
+/** Milliseconds the formatting history waits for more entries before it is saved */
+const HISTORY_SAVE_DELAY = 2000;
+
+/**
+ * Whether a note is auto-formatted, and what decided it.
+ */
+interface AutoFormatDecision {
+    enabled: boolean;
+    source: 'paused' | 'note' | 'rule' | 'folder' | 'global';
+    /** Human-readable description of the deciding setting */
+    reason: string;
 }
 
 const DEFAULT_SETTINGS: TightListsSettings = {
     autoFormatEnabled: false,
     useMdformat: false,
+    mdformatExecutable: '',
+    mdformatExtensions: [],
+    mdformatWrap: 'keep',
+    mdformatNumber: false,
+    mdformatEndOfLine: 'lf',
+    mdformatConfigFile: false,
+    useShellScript: false,
+    formatterTimeout: 10,
+    maxFormatterProcesses: 2,
+    usePipeline: false,
+    pipeline: [],
+    normalizeCheckboxes: false,
+    orderedListNumbering: 'keep',
+    orderedListDelimiter: 'keep',
+    bulletMarker: 'keep',
+    alternateBulletMarkers: false,
+    listIndent: 'keep',
     enableDelayBasedFormatting: true,
     debounceDelay: 2,
     eventBasedFormatting: false,
     formatOnFileOpen: true,
     formatOnFocusGain: true,
     formatOnFocusLoss: false,
+    formatOnSave: false,
+    formatOnCreate: false,
+    formatOnExternalChange: false,
     folderRules: {},
+    formatRules: [],
+    checkMode: false,
+};
+
+/**
+ * Read a yes/no frontmatter value, accepting booleans and on/off, yes/no and
+ * true/false strings.
+ */
+function parseToggle(value: unknown): boolean | undefined {
+    if (typeof value === 'boolean') {
+        return value;
+    }
+    if (typeof value === 'string') {
+        const normalized = value.trim().toLowerCase();
+        if (['on', 'yes', 'true', 'enabled'].includes(normalized)) return true;
+        if (['off', 'no', 'false', 'disabled'].includes(normalized)) return false;
+    }
+    return undefined;
+}
+
+function parseChoice<T extends string>(value: unknown, choices: readonly T[]): T | undefined {
+    const text = String(value).trim();
+    return (choices as readonly string[]).includes(text) ? text as T : undefined;
+}
+
+const LIST_INDENT_VALUES: Record<string, ListIndent> = {
+    'keep': 'keep',
+    '2': 'two-spaces',
+    '4': 'four-spaces',
+    'tab': 'tabs',
+    'tabs': 'tabs',
+};
+
+/**
+ * Frontmatter keys accepted inside a `tightlists:` object, each mapped to the
+ * settings it overrides. Values that cannot be parsed are ignored.
+ */
+const NOTE_SETTING_PARSERS: Record<string, (value: unknown) => Partial<TightListsSettings> | null> = {
+    'mdformat': (value) => {
+        const useMdformat = parseToggle(value);
+        return useMdformat === undefined ? null : engineSettings(useMdformat ? 'mdformat' : 'builtin');
+    },
+    'markers': (value) => {
+        const bulletMarker = parseChoice(value, ['keep', '-', '*', '+'] as const);
+        return bulletMarker ? { bulletMarker } : null;
+    },
+    'alternate-markers': (value) => {
+        const alternateBulletMarkers = parseToggle(value);
+        return alternateBulletMarkers === undefined ? null : { alternateBulletMarkers };
+    },
+    'numbering': (value) => {
+        const orderedListNumbering = parseChoice(value, ['keep', 'sequential', 'ones'] as const);
+        return orderedListNumbering ? { orderedListNumbering } : null;
+    },
+    'delimiter': (value) => {
+        const orderedListDelimiter = parseChoice(value, ['keep', '.', ')'] as const);
+        return orderedListDelimiter ? { orderedListDelimiter } : null;
+    },
+    'indent': (value) => {
+        const listIndent = LIST_INDENT_VALUES[String(value).trim().toLowerCase()];
+        return listIndent ? { listIndent } : null;
+    },
+    'checkboxes': (value) => {
+        const normalizeCheckboxes = parseToggle(value);
+        return normalizeCheckboxes === undefined ? null : { normalizeCheckboxes };
+    },
 };
 
+/**
+ * Collect note-level overrides from frontmatter:
+ *
+ * - `tightlists: false` opts the note out of formatting; `true` opts it in to
+ *   auto-formatting
+ * - `tightlists: { mdformat: true, markers: "-", autoformat: off, ... }`
+ *   overrides individual settings
+ * - `tightlists-autoformat: off` only decides whether the note is auto-formatted
+ */
+function parseNoteOverrides(frontmatter: Record<string, unknown> | undefined): NoteOverrides | null {
+    if (!frontmatter) {
+        return null;
+    }
+
+    const overrides: NoteOverrides = { formattingEnabled: true, settings: {} };
+    let found = false;
+
+    const value = frontmatter['tightlists'];
+    const toggle = parseToggle(value);
+    if (toggle !== undefined) {
+        overrides.formattingEnabled = toggle;
+        overrides.autoFormat = toggle;
+        found = true;
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+        for (const [key, optionValue] of Object.entries(value as Record<string, unknown>)) {
+            const name = key.toLowerCase();
+            if (name === 'enabled' || name === 'autoformat') {
+                const enabled = parseToggle(optionValue);
+                if (enabled !== undefined) {
+                    overrides.autoFormat = enabled;
+                    if (name === 'enabled') {
+                        overrides.formattingEnabled = enabled;
+                    }
+                    found = true;
+                }
+                continue;
+            }
+            const parser = NOTE_SETTING_PARSERS[name === 'marker' ? 'markers' : name];
+            const parsed = parser ? parser(optionValue) : null;
+            if (parsed) {
+                Object.assign(overrides.settings, parsed);
+                found = true;
+            }
+        }
+    }
+
+    const autoFormat = parseToggle(frontmatter['tightlists-autoformat']);
+    if (autoFormat !== undefined) {
+        overrides.autoFormat = autoFormat;
+        found = true;
+    }
+
+    return found ? overrides : null;
+}
+
+function parseExtensionList(value: string): string[] {
+    return value.split(',').map(extension => extension.trim()).filter(extension => extension !== '');
+}
+
+/**
+ * The formatter toggles that make `engine` the formatter.
+ */
+function engineSettings(engine: FormatterEngine): Partial<TightListsSettings> {
+    return {
+        useMdformat: engine === 'mdformat',
+        useShellScript: engine === 'script',
+        usePipeline: engine === 'pipeline',
+    };
+}
+
+/**
+ * The settings a folder profile overrides, with its engine as formatter toggles.
+ */
+function profileSettings(profile: FolderProfile): Partial<TightListsSettings> {
+    const { engine, ...settings } = profile;
+    return engine === undefined ? settings : Object.assign(settings, engineSettings(engine));
+}
+
+/**
+ * One-line summary of the settings a folder profile overrides.
+ */
+function describeFolderProfile(profile: FolderProfile): string {
+    const parts: string[] = [];
+    if (profile.engine !== undefined) {
+        parts.push(ENGINE_NAMES[profile.engine]);
+    }
+    if (profile.mdformatExtensions !== undefined) {
+        parts.push(`extensions: ${profile.mdformatExtensions.join(', ') || 'all'}`);
+    }
+    if (profile.enableDelayBasedFormatting !== undefined) {
+        parts.push(`delay-based ${profile.enableDelayBasedFormatting ? 'on' : 'off'}`);
+    }
+    if (profile.debounceDelay !== undefined) {
+        parts.push(`${profile.debounceDelay}s delay`);
+    }
+    if (profile.eventBasedFormatting !== undefined) {
+        parts.push(`event-based ${profile.eventBasedFormatting ? 'on' : 'off'}`);
+    }
+    const normalizations = (['formatOnFileOpen', 'formatOnFocusGain', 'formatOnFocusLoss',
+        'formatOnSave', 'formatOnCreate', 'formatOnExternalChange',
+        'normalizeCheckboxes', 'orderedListNumbering', 'orderedListDelimiter',
+        'bulletMarker', 'alternateBulletMarkers', 'listIndent'] as const)
+        .filter(key => profile[key] !== undefined).length;
+    if (normalizations > 0) {
+        parts.push(`${normalizations} more option${normalizations > 1 ? 's' : ''}`);
+    }
+    return parts.length > 0 ? `Profile: ${parts.join(', ')}` : 'Profile: global settings';
+}
+
 export default class TightListsFormatterPlugin extends Plugin {
     settings: TightListsSettings;
     private formatDebounceTimers: Map<string, NodeJS.Timeout> = new Map();
     private scriptPath: string;
     public mdformatAvailable: boolean = false;
     public mdformatPath: string | null = null;
+    /** First line of `mdformat --version` */
+    public mdformatVersion: string | null = null;
+    /** The last external formatter run that failed */
+    public lastFormatterFailure: FormatterFailure | null = null;
+    /** Slots for formatter processes, shared by every format */
+    private processSlots = new Semaphore(() => this.settings.maxFormatterProcesses);
+    /** Formats in progress by note path, to cancel when a newer one starts */
+    private formatRuns: Map<string, AbortController> = new Map();
     public mdformatTightListsAvailable: boolean = false;
-    private currentlyFormatting: Set<string> = new Set();
+    /** Extensions of the mdformat installation, or null when they are unknown */
+    public mdformatInstalledExtensions: string[] | null = null;
+    /**
+     * Notes the plugin is writing, by path, counted because a format, undo or
+     * revert of the same note can overlap
+     */
+    private currentlyFormatting: Map<string, number> = new Map();
+    /** The notes changed by the last format, for "Undo last format" */
+    private lastFormat: FormatUndoEntry[] = [];
+    /** While a batch runs, the formats it makes, to undo together */
+    private batchUndo: FormatUndoEntry[] | null = null;
+    /** Notes whose format was undone and that were not edited since */
+    private undoneFormats: Set<string> = new Set();
     private statusBarItem: HTMLElement;
     private lastActiveFile: TFile | null = null;
+    /** Editor extensions, filled while check mode is on */
+    private editorExtensions: Extension[] = [];
+    /** Issues found in the active note by check mode */
+    private lintIssues: LintIssue[] = [];
+    /** Content of the active note the issues were found in */
+    private lintContent = '';
+    private checkTimer: NodeJS.Timeout | null = null;
+    /** Notes created or changed on disk that wait to be formatted, by path */
+    private settleTimers: Map<string, NodeJS.Timeout> = new Map();
+    /** New notes among them, which wait for their template */
+    private createdFiles: Set<string> = new Set();
+    /** Recent formats, saved next to the plugin settings */
+    public history = new FormatHistory();
+    private historySaveTimer: NodeJS.Timeout | null = null;
+    /** Auto-format paused from the status bar menu until Obsidian restarts */
+    private autoFormatPaused = false;
+    /** Notes whose auto-format is paused until Obsidian restarts, by path */
+    private pausedNotes: Set<string> = new Set();
 
     async onload() {
         await this.loadSettings();
+        await this.loadHistory();
 
-        // Set the path to the shell script
-        // Simple path resolution - the script is in the same directory as the plugin
-        const adapter = this.app.vault.adapter as any;
-        const pluginDir = path.join(adapter.basePath, '.obsidian', 'plugins', this.manifest.id);
-        this.scriptPath = path.join(pluginDir, 'md-tight-lists.sh');
-        
-        // Check for mdformat availability
-        await this.checkMdformatAvailability();
+        if (Platform.isDesktopApp) {
+            // Set the path to the optional fallback shell script
+            // Simple path resolution - the script is in the same directory as the plugin
+            const adapter = this.app.vault.adapter as any;
+            const pluginDir = path.join(adapter.basePath, '.obsidian', 'plugins', this.manifest.id);
+            this.scriptPath = path.join(pluginDir, 'md-tight-lists.sh');
+
+            // Check for mdformat availability
+            await this.detectMdformat();
+        }
 
         // Add status bar item
         this.statusBarItem = this.addStatusBarItem();
         this.updateStatusBar();
 
+        // Auto-format only formats the lists around edited lines
+        this.registerEditorExtension(touchedRanges);
+
+        // Check mode shows issues in the editor through this extension
+        this.registerEditorExtension(this.editorExtensions);
+        this.updateCheckMode();
+
         // Add ribbon icon
         this.addRibbonIcon('list', 'Format lists', () => {
             this.formatCurrentFile();
@@ -73,7 +533,78 @@ export default class TightListsFormatterPlugin extends Plugin {
             id: 'format-selection',
             name: 'Format selected text',
             editorCallback: (editor: Editor, view: MarkdownView) => {
-                this.formatSelection(editor);
+                this.formatSelection(editor, view);
+            }
+        });
+
+        this.addCommand({
+            id: 'show-diagnostics',
+            name: 'Show formatter diagnostics',
+            callback: () => {
+                new DiagnosticsModal(this.app, this).open();
+            }
+        });
+
+        this.registerView(VIEW_TYPE_HISTORY, leaf => new FormatHistoryView(leaf, this));
+
+        this.addCommand({
+            id: 'show-history',
+            name: 'Show formatting history',
+            callback: () => {
+                this.showHistory();
+            }
+        });
+
+        this.addCommand({
+            id: 'undo-last-format',
+            name: 'Undo last format',
+            callback: () => {
+                this.undoLastFormat();
+            }
+        });
+
+        // Add check mode commands
+        this.addCommand({
+            id: 'toggle-check-mode',
+            name: 'Toggle check mode',
+            callback: async () => {
+                this.settings.checkMode = !this.settings.checkMode;
+                await this.saveSettings();
+                new Notice(`Check mode ${this.settings.checkMode ? 'enabled' : 'disabled'}`);
+            }
+        });
+
+        this.addCommand({
+            id: 'fix-all-issues',
+            name: 'Fix all list issues',
+            callback: () => {
+                this.fixAllIssues();
+            }
+        });
+
+        // Add command to preview formatting before applying it
+        this.addCommand({
+            id: 'preview-formatting',
+            name: 'Preview formatting',
+            callback: () => {
+                this.previewCurrentFile();
+            }
+        });
+
+        // Add commands to format many files at once
+        this.addCommand({
+            id: 'format-folder',
+            name: 'Format folder…',
+            callback: () => {
+                new FolderSuggestModal(this.app, (folder) => this.formatFolder(folder)).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'format-vault',
+            name: 'Format entire vault',
+            callback: () => {
+                this.formatFolder(this.app.vault.getRoot());
             }
         });
 
@@ -95,6 +626,16 @@ export default class TightListsFormatterPlugin extends Plugin {
         // Add context menu for selected text
         this.registerEvent(
             this.app.workspace.on('editor-menu', (menu, editor, view) => {
+                if (this.lintIssues.length > 0) {
+                    menu.addItem((item) => {
+                        item
+                            .setTitle(`Fix all list issues (${this.lintIssues.length})`)
+                            .setIcon('list-checks')
+                            .onClick(() => {
+                                this.fixAllIssues();
+                            });
+                    });
+                }
                 if (editor.getSelection()) {
                     menu.addSeparator();
                     menu.addItem((item) => {
@@ -102,9 +643,51 @@ export default class TightListsFormatterPlugin extends Plugin {
                             .setTitle('Format Tight Lists')
                             .setIcon('list')
                             .onClick(() => {
-                                this.formatSelection(editor);
+                                this.formatSelection(editor, view);
+                            });
+                    });
+                }
+            })
+        );
+
+        // Add context menu for folders in the file explorer
+        this.registerEvent(
+            this.app.workspace.on('file-menu', (menu, file) => {
+                if (file instanceof TFolder) {
+                    menu.addItem((item) => {
+                        item
+                            .setTitle('Format notes in folder')
+                            .setIcon('list')
+                            .onClick(() => {
+                                this.formatFolder(file);
                             });
                     });
+                    if (!file.isRoot()) {
+                        menu.addItem((item) => {
+                            item
+                                .setTitle('Auto-format this folder')
+                                .setChecked(this.settings.folderRules[file.path]?.enabled ?? false)
+                                .onClick(() => {
+                                    this.toggleFolderRule(file);
+                                });
+                        });
+                    }
+                }
+            })
+        );
+
+        // Folder rules are keyed by path, so they follow their folder
+        this.registerEvent(
+            this.app.vault.on('rename', (file, oldPath) => {
+                if (file instanceof TFolder) {
+                    this.moveFolderRules(oldPath, file.path);
+                }
+            })
+        );
+        this.registerEvent(
+            this.app.vault.on('delete', (file) => {
+                if (file instanceof TFolder) {
+                    this.moveFolderRules(file.path, null);
                 }
             })
         );
@@ -113,14 +696,17 @@ export default class TightListsFormatterPlugin extends Plugin {
         this.registerEvent(
             this.app.workspace.on('editor-change', (editor: Editor, view: MarkdownView) => {
                 if (view.file) {
+                    this.scheduleCheck();
+
                     // Skip if we're currently formatting this file
                     if (this.currentlyFormatting.has(view.file.path)) {
                         return;
                     }
+                    this.undoneFormats.delete(view.file.path);
                     
                     const shouldFormat = this.shouldAutoFormatFile(view.file);
                     
-                    if (shouldFormat && this.settings.enableDelayBasedFormatting) {
+                    if (shouldFormat && this.getEffectiveSettings(view.file).enableDelayBasedFormatting) {
                         this.scheduleAutoFormat(view.file);
                     }
                 }
@@ -133,15 +719,26 @@ export default class TightListsFormatterPlugin extends Plugin {
                 if (file && file.extension === 'md') {
                     // Update status bar
                     this.updateStatusBar();
+                    this.scheduleCheck();
                     
                     // Trigger event-based format if enabled
-                    if (this.settings.eventBasedFormatting && this.settings.formatOnFileOpen) {
+                    const settings = this.getEffectiveSettings(file);
+                    if (settings.eventBasedFormatting && settings.formatOnFileOpen) {
                         this.triggerEventBasedFormat(file, 'file-open');
                     }
                 }
             })
         );
 
+        // Refresh the status bar when the active note's frontmatter changes
+        this.registerEvent(
+            this.app.metadataCache.on('changed', (file: TFile) => {
+                if (file === this.app.workspace.getActiveFile()) {
+                    this.updateStatusBar();
+                }
+            })
+        );
+
         // Register active-leaf-change event for focus tracking
         this.registerEvent(
             this.app.workspace.on('active-leaf-change', (leaf) => {
@@ -151,17 +748,20 @@ export default class TightListsFormatterPlugin extends Plugin {
                     
                     // Update status bar
                     this.updateStatusBar();
+                    this.scheduleCheck();
                     
                     // Handle focus loss on previous file
                     if (this.lastActiveFile && this.lastActiveFile !== currentFile) {
-                        if (this.settings.eventBasedFormatting && this.settings.formatOnFocusLoss) {
+                        const settings = this.getEffectiveSettings(this.lastActiveFile);
+                        if (settings.eventBasedFormatting && settings.formatOnFocusLoss) {
                             this.triggerEventBasedFormat(this.lastActiveFile, 'focus-loss');
                         }
                     }
                     
                     // Handle focus gain on current file
                     if (this.lastActiveFile !== currentFile) {
-                        if (this.settings.eventBasedFormatting && this.settings.formatOnFocusGain) {
+                        const settings = this.getEffectiveSettings(currentFile);
+                        if (settings.eventBasedFormatting && settings.formatOnFocusGain) {
                             this.triggerEventBasedFormat(currentFile, 'focus-gain');
                         }
                     }
@@ -170,6 +770,88 @@ export default class TightListsFormatterPlugin extends Plugin {
                 }
             })
         );
+
+        this.hookSaveCommand();
+
+        // The vault reports every existing file as created while it loads
+        this.app.workspace.onLayoutReady(() => {
+            this.registerEvent(
+                this.app.vault.on('create', (file) => {
+                    if (file instanceof TFile && file.extension === 'md') {
+                        const settings = this.getEffectiveSettings(file);
+                        if (settings.eventBasedFormatting && settings.formatOnCreate) {
+                            this.createdFiles.add(file.path);
+                            this.scheduleSettledFormat(file, CREATE_SETTLE_DELAY);
+                        }
+                    }
+                })
+            );
+        });
+
+        this.registerEvent(
+            this.app.vault.on('modify', (file) => {
+                if (!(file instanceof TFile) || file.extension !== 'md' || this.currentlyFormatting.has(file.path)) {
+                    return;
+                }
+
+                // Templates write new notes in steps; wait until they are done
+                if (this.createdFiles.has(file.path)) {
+                    this.scheduleSettledFormat(file, CREATE_SETTLE_DELAY);
+                    return;
+                }
+
+                // Changes to open notes are the editor saving what was typed
+                if (this.findMarkdownView(file)) {
+                    return;
+                }
+                const settings = this.getEffectiveSettings(file);
+                if (settings.eventBasedFormatting && settings.formatOnExternalChange) {
+                    this.scheduleSettledFormat(file, EXTERNAL_CHANGE_DELAY);
+                }
+            })
+        );
+    }
+
+    /**
+     * Format a note once it has gone `delay` milliseconds without changes.
+     */
+    private scheduleSettledFormat(file: TFile, delay: number) {
+        const existingTimer = this.settleTimers.get(file.path);
+        if (existingTimer) {
+            clearTimeout(existingTimer);
+        }
+        this.settleTimers.set(file.path, setTimeout(() => {
+            this.settleTimers.delete(file.path);
+            const created = this.createdFiles.delete(file.path);
+            this.triggerEventBasedFormat(file, created ? 'create' : 'external-change');
+        }, delay));
+    }
+
+    /**
+     * Format the active note before Obsidian's "Save current file" command
+     * writes it. The command is wrapped for as long as the plugin is loaded.
+     */
+    private hookSaveCommand() {
+        const commands = (this.app as unknown as { commands?: { commands?: Record<string, Command> } }).commands?.commands;
+        const saveCommand = commands?.['editor:save-file'];
+        const checkCallback = saveCommand?.checkCallback;
+        if (!saveCommand || !checkCallback) {
+            return;
+        }
+
+        saveCommand.checkCallback = (checking: boolean) => {
+            const file = this.app.workspace.getActiveFile();
+            const settings = this.getEffectiveSettings(file);
+            if (checking || !file || !settings.eventBasedFormatting || !settings.formatOnSave) {
+                return checkCallback.call(saveCommand, checking);
+            }
+            this.triggerEventBasedFormat(file, 'save')
+                .finally(() => checkCallback.call(saveCommand, false));
+            return true;
+        };
+        this.register(() => {
+            saveCommand.checkCallback = checkCallback;
+        });
     }
 
     onunload() {
@@ -178,44 +860,159 @@ export default class TightListsFormatterPlugin extends Plugin {
             clearTimeout(timer);
         }
         this.formatDebounceTimers.clear();
+        for (const timer of this.settleTimers.values()) {
+            clearTimeout(timer);
+        }
+        this.settleTimers.clear();
+        if (this.checkTimer) {
+            clearTimeout(this.checkTimer);
+        }
+        if (this.historySaveTimer) {
+            clearTimeout(this.historySaveTimer);
+            this.saveHistory();
+        }
     }
 
     async loadSettings() {
         this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+
+        // Folder rules saved before profiles existed only have `enabled`, and
+        // profiles saved before engines only choose mdformat or not
+        for (const rule of Object.values(this.settings.folderRules)) {
+            const profile: FolderProfile & { useMdformat?: boolean } = rule.profile ?? {};
+            if (profile.useMdformat !== undefined) {
+                profile.engine = profile.useMdformat ? 'mdformat' : 'builtin';
+                delete profile.useMdformat;
+            }
+            rule.profile = profile;
+        }
+        this.settings.formatRules = this.settings.formatRules.map(rule => ({ ...rule }));
+        this.settings.pipeline = this.settings.pipeline.map(step => ({ ...step }));
+    }
+
+    /**
+     * Add or remove the check mode editor extension to match the setting.
+     */
+    private updateCheckMode() {
+        this.editorExtensions.length = 0;
+        if (this.settings.checkMode) {
+            this.editorExtensions.push(lintExtension());
+        }
+        this.app.workspace.updateOptions();
+        this.lintIssues = [];
+        this.scheduleCheck();
+        this.updateStatusBar();
+    }
+
+    private scheduleCheck() {
+        if (this.checkTimer) {
+            clearTimeout(this.checkTimer);
+        }
+        if (!this.settings.checkMode) {
+            return;
+        }
+        this.checkTimer = setTimeout(() => {
+            this.checkTimer = null;
+            this.checkActiveNote();
+        }, CHECK_DELAY);
+    }
+
+    /**
+     * Find the issues formatting would fix in the active note and show them in
+     * its editor and the status bar, without changing the note.
+     */
+    async checkActiveNote() {
+        const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+        if (!this.settings.checkMode || !view || !view.file) {
+            return;
+        }
+
+        const file = view.file;
+        const content = view.editor.getValue();
+        let issues: LintIssue[] = [];
+        if (this.getNoteOverrides(file)?.formattingEnabled !== false) {
+            try {
+                issues = findIssues(content, await this.formatNoteContent(file, content));
+            } catch (error) {
+                console.error('Check error:', error);
+                return;
+            }
+        }
+
+        // The note may have been edited or switched while it was checked
+        if (view.file !== file || view.editor.getValue() !== content) {
+            return;
+        }
+        this.lintIssues = issues;
+        this.lintContent = content;
+        showLintIssues(this.getEditorView(view), issues);
+        this.updateStatusBar();
+    }
+
+    /**
+     * Apply the fixes for every issue check mode reports in the active note,
+     * checking it again first when it was edited since.
+     */
+    async fixAllIssues() {
+        const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+        if (!view || !view.file) {
+            new Notice('No active markdown file');
+            return;
+        }
+
+        const file = view.file;
+        if (view.editor.getValue() !== this.lintContent) {
+            await this.checkActiveNote();
+        }
+        const content = view.editor.getValue();
+        if (view.file !== file || content !== this.lintContent || this.lintIssues.length === 0) {
+            return;
+        }
+
+        const started = performance.now();
+        const fixed = applyFixes(content, this.lintIssues);
+        if (fixed !== content && await this.replaceFormattedContent(file, content, fixed)) {
+            this.logFormat(file, 'manual', started, { outcome: 'changed', change: this.recordFormat(file, content, fixed) });
+        }
+        this.scheduleCheck();
     }
 
     async saveSettings() {
         await this.saveData(this.settings);
+        if (this.settings.checkMode !== this.editorExtensions.length > 0) {
+            this.updateCheckMode();
+        } else {
+            // Other settings can change what check mode reports
+            this.scheduleCheck();
+        }
         this.updateStatusBar();
     }
 
-    private async checkMdformatAvailability(): Promise<void> {
-        // Priority order for checking mdformat locations
-        const priorityPaths = [
-            // pipx default installation
-            path.join(process.env.HOME || '', '.local', 'bin'),
-            // user-local installation
-            path.join(process.env.HOME || '', 'local', 'bin'),
-            // Homebrew installation
-            '/opt/homebrew/bin',
-            // Linuxbrew installation
-            '/home/linuxbrew/.linuxbrew/bin',
-        ];
-        const pathEnv = process.env.PATH || '';
-        const possiblePaths = priorityPaths.concat(pathEnv.split(':'))
+    /**
+     * Find the mdformat executable and what it supports: the configured path,
+     * or else the usual install locations and PATH. Run again after installing
+     * mdformat or changing the configured path.
+     */
+    async detectMdformat(): Promise<void> {
+        this.mdformatAvailable = false;
+        this.mdformatPath = null;
+        this.mdformatVersion = null;
+        this.mdformatTightListsAvailable = false;
+        this.mdformatInstalledExtensions = null;
 
-        // Check each possible path
-        for (const dir of possiblePaths) {
+        const configured = this.settings.mdformatExecutable.trim();
+        const candidates = configured ? this.getConfiguredMdformatPaths(configured) : this.getDefaultMdformatPaths();
+
+        for (const mdformatPath of candidates) {
             try {
-                const mdformatPath = path.join(dir, 'mdformat');
                 if (fs.existsSync(mdformatPath)) {
                     // Verify it's executable
                     const stats = fs.statSync(mdformatPath);
                     if (stats.isFile() && (stats.mode & 0o111)) {
                         this.mdformatAvailable = true;
                         this.mdformatPath = mdformatPath;
-                        // Check for tight-lists plugin
-                        await this.checkMdformatTightLists();
+                        // Check for tight-lists and other extensions
+                        await this.checkMdformatExtensions();
                         return;
                     }
                 }
@@ -223,48 +1020,99 @@ export default class TightListsFormatterPlugin extends Plugin {
                 // Continue checking other paths
             }
         }
-
-        this.mdformatAvailable = false;
-        this.mdformatPath = null;
-        this.mdformatTightListsAvailable = false;
     }
 
-    private async checkMdformatTightLists(): Promise<void> {
-        if (!this.mdformatPath) return;
-        
-        try {
-            // Run mdformat --help to check for tight-lists plugin
-            const result = await new Promise<string>((resolve, reject) => {
-                const child = spawn(this.mdformatPath!, ['--help'], {
-                    stdio: ['pipe', 'pipe', 'pipe']
-                });
-                
-                let stdout = '';
-                child.stdout.on('data', (data) => {
-                    stdout += data.toString();
-                });
-                
-                child.on('close', (code) => {
-                    if (code === 0) {
-                        resolve(stdout);
-                    } else {
-                        reject(new Error('Failed to check mdformat'));
-                    }
-                });
-            });
-            
-            // Check if tight-lists extension is mentioned in help output
-            this.mdformatTightListsAvailable = result.includes('tight_lists');
+    private getDefaultMdformatPaths(): string[] {
+        // Priority order for checking mdformat locations
+        const priorityPaths = [
+            // pipx default installation
+            path.join(process.env.HOME || '', '.local', 'bin'),
+            // user-local installation
+            path.join(process.env.HOME || '', 'local', 'bin'),
+            // Homebrew installation
+            '/opt/homebrew/bin',
+            // Linuxbrew installation
+            '/home/linuxbrew/.linuxbrew/bin',
+        ];
+        const pathEnv = process.env.PATH || '';
+        return priorityPaths.concat(pathEnv.split(':')).map(dir => path.join(dir, 'mdformat'));
+    }
+
+    /**
+     * The configured executable, or, when it names a virtualenv or another
+     * install prefix, the mdformat inside it.
+     */
+    private getConfiguredMdformatPaths(configured: string): string[] {
+        const expanded = configured.replace(/^~(?=$|[\\/])/, os.homedir());
+        return [
+            expanded,
+            path.join(expanded, 'bin', 'mdformat'),
+            path.join(expanded, 'Scripts', 'mdformat.exe'),
+            path.join(expanded, 'mdformat'),
+        ];
+    }
+
+    private async checkMdformatExtensions(): Promise<void> {
+        if (!this.mdformatPath) return;
+        
+        try {
+            const help = await this.runMdformatInfo('--help');
+            const version = await this.runMdformatInfo('--version').catch(() => '');
+            this.mdformatVersion = version.split('\n')[0].trim() || null;
+            this.mdformatInstalledExtensions = parseInstalledExtensions(help, version);
+            this.mdformatTightListsAvailable = this.mdformatInstalledExtensions
+                ? this.mdformatInstalledExtensions.includes('tight_lists')
+                : help.includes('tight_lists');
         } catch (error) {
             this.mdformatTightListsAvailable = false;
+            this.mdformatInstalledExtensions = null;
         }
     }
 
-    private shouldAutoFormatFile(file: TFile): boolean {
+    private async runMdformatInfo(flag: string): Promise<string> {
+        const result = await this.runProcess(this.mdformatPath!, [flag], '', { timeout: this.settings.formatterTimeout });
+        if (result.code !== 0) {
+            throw new Error('Failed to check mdformat');
+        }
+        return result.stdout;
+    }
+
+    /**
+     * Whether mdformat keeps the frontmatter of notes intact with the given
+     * extensions enabled (all installed ones when empty). True when the
+     * installed extensions are unknown.
+     */
+    mdformatHandlesFrontmatter(extensions: string[]): boolean {
+        if (extensions.length > 0) {
+            return extensions.includes('frontmatter');
+        }
+        return this.mdformatInstalledExtensions?.includes('frontmatter') ?? true;
+    }
+
+    getNoteOverrides(file: TFile): NoteOverrides | null {
+        return parseNoteOverrides(this.app.metadataCache.getFileCache(file)?.frontmatter);
+    }
+
+    /**
+     * Settings to format a note with: the global settings, then the profile of
+     * the deepest matching folder rule, then the note's own frontmatter overrides.
+     */
+    getEffectiveSettings(file: TFile | null): TightListsSettings {
+        if (!file) {
+            return this.settings;
+        }
+        const folderRule = this.findFolderRule(file);
+        const overrides = this.getNoteOverrides(file);
+        return Object.assign({}, this.settings, folderRule && profileSettings(folderRule.rule.profile), overrides?.settings);
+    }
+
+    /**
+     * The folder rule that applies to a file: the rule of the deepest folder
+     * containing it.
+     */
+    findFolderRule(file: TFile): { folderPath: string, rule: FolderRule } | null {
         const filePath = file.path;
-        
-        // Check folder-specific rules
-        let shouldFormat = this.settings.autoFormatEnabled;
+        let match: { folderPath: string, rule: FolderRule } | null = null;
         let maxDepth = -1;
 
         for (const [folderPath, rule] of Object.entries(this.settings.folderRules)) {
@@ -277,12 +1125,103 @@ export default class TightListsFormatterPlugin extends Plugin {
                 const depth = folderPath.split('/').length;
                 if (depth > maxDepth) {
                     maxDepth = depth;
-                    shouldFormat = rule.enabled;
+                    match = { folderPath, rule };
                 }
             }
         }
 
-        return shouldFormat;
+        return match;
+    }
+
+    /**
+     * Turn auto-format for a folder on or off, adding a folder rule with an
+     * empty profile when it has none.
+     */
+    async toggleFolderRule(folder: TFolder) {
+        const rule = this.settings.folderRules[folder.path];
+        if (rule) {
+            rule.enabled = !rule.enabled;
+        } else {
+            this.settings.folderRules[folder.path] = { enabled: true, profile: {} };
+        }
+        await this.saveSettings();
+        new Notice(`Auto-format ${this.settings.folderRules[folder.path].enabled ? 'enabled' : 'disabled'} for "${folder.path}"`);
+    }
+
+    /**
+     * Move the rules of a renamed folder and its subfolders to their new
+     * paths, or remove them when `newPath` is null because it was deleted.
+     */
+    private async moveFolderRules(oldPath: string, newPath: string | null) {
+        const rules = this.settings.folderRules;
+        let changed = false;
+        for (const folderPath of Object.keys(rules)) {
+            if (folderPath !== oldPath && !folderPath.startsWith(oldPath + '/')) {
+                continue;
+            }
+            if (newPath !== null) {
+                rules[newPath + folderPath.slice(oldPath.length)] = rules[folderPath];
+            }
+            delete rules[folderPath];
+            changed = true;
+        }
+        if (changed) {
+            await this.saveSettings();
+        }
+    }
+
+    private getRuleSubject(file: TFile): RuleSubject {
+        const cache = this.app.metadataCache.getFileCache(file);
+        return {
+            path: file.path,
+            tags: cache ? getAllTags(cache) ?? [] : [],
+            frontmatter: cache?.frontmatter ?? {},
+        };
+    }
+
+    /**
+     * Decide whether a note is auto-formatted. In order of precedence: a pause
+     * from the status bar menu, the note's frontmatter, the first matching
+     * include/exclude rule, the deepest folder rule, and the global setting.
+     */
+    explainAutoFormat(file: TFile): AutoFormatDecision {
+        if (this.autoFormatPaused) {
+            return { enabled: false, source: 'paused', reason: 'paused for this session' };
+        }
+        if (this.pausedNotes.has(file.path)) {
+            return { enabled: false, source: 'paused', reason: 'paused for this note' };
+        }
+        return this.explainConfiguredAutoFormat(file);
+    }
+
+    /**
+     * The same decision from the settings and frontmatter alone, without pauses.
+     */
+    private explainConfiguredAutoFormat(file: TFile): AutoFormatDecision {
+        const overrides = this.getNoteOverrides(file);
+        if (overrides && overrides.autoFormat !== undefined) {
+            return { enabled: overrides.autoFormat, source: 'note', reason: 'note frontmatter' };
+        }
+
+        const match = findMatchingRule(this.settings.formatRules, this.getRuleSubject(file));
+        if (match) {
+            return {
+                enabled: match.rule.action === 'include',
+                source: 'rule',
+                reason: `rule ${match.index + 1}: ${describeRule(match.rule)}`,
+            };
+        }
+
+        const folderRule = this.findFolderRule(file);
+        if (folderRule) {
+            return { enabled: folderRule.rule.enabled, source: 'folder', reason: `folder rule ${folderRule.folderPath}/` };
+        }
+
+        return { enabled: this.settings.autoFormatEnabled, source: 'global', reason: 'global setting' };
+    }
+
+    private shouldAutoFormatFile(file: TFile): boolean {
+        return this.explainAutoFormat(file).enabled;
     }
 
     private scheduleAutoFormat(file: TFile) {
@@ -305,15 +1244,94 @@ export default class TightListsFormatterPlugin extends Plugin {
                         this.scheduleAutoFormat(file);
                         return;
                     }
+                    const started = performance.now();
+                    this.logFormat(file, 'delay', started, await this.formatTouchedLists(file, activeView));
+                } else {
+                    await this.formatFile(file, 'delay');
                 }
-                await this.formatFile(file, true, activeView?.editor); // true = silent mode for auto-format
             }
             this.formatDebounceTimers.delete(file.path);
-        }, this.settings.debounceDelay * 1000);
+        }, this.getEffectiveSettings(file).debounceDelay * 1000);
 
         this.formatDebounceTimers.set(file.path, timer);
     }
 
+    /**
+     * Auto-format only the lists around the lines edited since the note was last
+     * formatted. Changes are applied as targeted editor edits, so the cursor,
+     * scroll position and folds outside of those lists stay as they are.
+     *
+     * External formatters get only those lists when each of them can be
+     * formatted on its own (see `isStandaloneBlock`) and the built-in engine
+     * agrees that this gives the same as formatting the whole note. Otherwise,
+     * and with the built-in engine, which is fast enough for whole notes, the
+     * whole note is formatted and only the changes to those lists are kept.
+     */
+    private async formatTouchedLists(file: TFile, view: MarkdownView): Promise<FormatResult> {
+        if (this.getNoteOverrides(file)?.formattingEnabled === false) {
+            return { outcome: 'skipped', reason: 'disabled in note frontmatter' };
+        }
+
+        const editorView = this.getEditorView(view);
+        const touched = getTouchedLines(editorView);
+        if (touched.length === 0) {
+            return { outcome: 'unchanged' };
+        }
+
+        const editor = view.editor;
+        const content = editor.getValue();
+        const lines = content.split('\n');
+        const blocks = mergeLineBlocks(touched.map(range => findListBlock(lines, range.start, range.end)));
+        const settings = this.getEffectiveSettings(file);
+        const isolated = blocks
+            .map(block => trimBlankLines(lines, block))
+            .filter((block): block is { start: number, end: number } => block !== null);
+        const standalone = this.getEngine(settings) !== 'builtin' &&
+            isolated.every(block => isStandaloneBlock(lines, block.start, block.end)) &&
+            formatsLikeWholeNote(lines, isolated, this.getFormatterOptions(settings));
+        let formatted: string;
+        try {
+            formatted = await this.formatLatest(file, signal => standalone
+                ? this.formatNoteBlocks(file, lines, isolated, signal)
+                : this.formatNoteContent(file, content, signal));
+        } catch (error) {
+            if (error instanceof FormatCancelledError) {
+                return { outcome: 'skipped', reason: error.message, cancelled: true };
+            }
+            console.error('Format error:', error);
+            this.reportAutoFormatFailure(file, error);
+            return { outcome: 'failed', reason: error.message };
+        }
+
+        // Edits made while formatting schedule another auto-format
+        if (view.file !== file || editor.getValue() !== content) {
+            return { outcome: 'skipped', reason: 'note changed while formatting' };
+        }
+
+        // Apply the changes that fall inside the edited lists or right at their edges
+        const diff = diffLines(content, formatted, 0);
+        const hunks = diff.hunks.filter(hunk => blocks.some(block =>
+            hunk.oldStart <= block.end + 1 && Math.max(hunk.oldEnd, hunk.oldStart + 1) > block.start - 1));
+
+        if (hunks.length === 0) {
+            clearTouchedRanges(editorView);
+            return { outcome: 'unchanged' };
+        }
+
+        this.beginFormatting(file.path);
+        try {
+            applyEdits(editorView, textEdits(diff, hunks));
+            clearTouchedRanges(editorView);
+            return { outcome: 'changed', change: this.recordFormat(file, content, editor.getValue()) };
+        } finally {
+            this.endFormatting(file.path);
+        }
+    }
+
+    private getEditorView(view: MarkdownView): EditorView {
+        return (view.editor as unknown as { cm: EditorView }).cm;
+    }
+
     async formatCurrentFile() {
         const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
         if (!activeView || !activeView.file) {
@@ -321,234 +1339,957 @@ export default class TightListsFormatterPlugin extends Plugin {
             return;
         }
 
-        await this.formatFile(activeView.file, false, activeView.editor); // false = not silent, show notices
+        await this.formatFile(activeView.file);
     }
 
-    async formatFile(file: TFile, silent: boolean = false, editor?: Editor) {
-        // Mark as currently formatting to prevent recursive calls
-        this.currentlyFormatting.add(file.path);
-        
-        // Save cursor position if editor is provided
-        let savedPosition: {line: number, ch: number} | undefined;
-        if (editor) {
-            savedPosition = this.saveCursorPosition(editor);
+    /**
+     * Format a note and add it to the formatting history. Only manual formats
+     * show notices; batches report timeouts in their own report.
+     */
+    async formatFile(file: TFile, trigger: FormatTrigger = 'manual'): Promise<FormatResult> {
+        const started = performance.now();
+        const result = await this.writeFormattedNote(file, trigger !== 'manual', trigger !== 'batch');
+        this.logFormat(file, trigger, started, result);
+        return result;
+    }
+
+    private async writeFormattedNote(file: TFile, silent: boolean, reportTimeouts: boolean): Promise<FormatResult> {
+        if (this.getNoteOverrides(file)?.formattingEnabled === false) {
+            if (!silent) {
+                new Notice('Formatting is disabled in this note\'s frontmatter');
+            }
+            return { outcome: 'skipped', reason: 'disabled in note frontmatter' };
         }
-        
+
         try {
-            const content = await this.app.vault.read(file);
-            
-            // Ensure content ends with newline for proper formatting
-            const contentToFormat = content.endsWith('\n') ? content : content + '\n';
-            const formatted = await this.runFormatter(contentToFormat);
-            
-            // Preserve original newline ending
-            const formattedResult = content.endsWith('\n') ? formatted : formatted.trimEnd();
-            
-            if (formattedResult !== content) {
-                await this.app.vault.modify(file, formattedResult);
+            for (let attempt = 1; ; attempt++) {
+                const content = await this.readNote(file);
+                const formattedResult = await this.formatLatest(file, signal => this.formatNoteContent(file, content, signal));
                 
-                // Restore cursor position if we saved it
-                if (editor && savedPosition) {
-                    // Small delay to ensure the editor has updated
-                    setTimeout(() => {
-                        if (savedPosition) {
-                            this.restoreCursorPosition(editor, savedPosition);
-                        }
-                    }, 50);
+                if (formattedResult === content) {
+                    if (!silent) {
+                        new Notice('No formatting changes needed');
+                    }
+                    return { outcome: 'unchanged' };
                 }
-                
-                if (!silent) {
-                    new Notice('File formatted successfully');
+
+                // Only written if the note is still what was formatted, so
+                // nothing typed in the meantime is ever overwritten. Edits made
+                // while the formatter ran are seen by the change handlers as usual.
+                if (await this.replaceFormattedContent(file, content, formattedResult)) {
+                    const change = this.recordFormat(file, content, formattedResult);
+                    if (!silent) {
+                        new Notice('File formatted successfully');
+                    }
+                    return { outcome: 'changed', change };
                 }
-            } else {
-                if (!silent) {
-                    new Notice('No formatting changes needed');
+
+                if (attempt >= MAX_FORMAT_ATTEMPTS) {
+                    if (!silent) {
+                        new Notice('Formatting skipped: the note kept changing while it was formatted');
+                    }
+                    return { outcome: 'skipped', reason: 'note kept changing while formatting' };
                 }
             }
         } catch (error) {
+            if (error instanceof FormatCancelledError) {
+                return { outcome: 'skipped', reason: error.message, cancelled: true };
+            }
             console.error('Format error:', error);
             if (!silent) {
                 new Notice(`Formatting failed: ${error.message}`);
+            } else if (reportTimeouts) {
+                this.reportAutoFormatFailure(file, error);
             }
-        } finally {
-            // Always remove from formatting set
-            this.currentlyFormatting.delete(file.path);
+            return { outcome: 'failed', reason: error.message };
         }
     }
 
-    async formatSelection(editor: Editor) {
-        const selection = editor.getSelection();
-        if (!selection) {
-            new Notice('No text selected');
-            return;
+    /**
+     * Auto-format is silent, but a formatter that hangs would otherwise stop
+     * it without any sign, so timeouts are always reported.
+     */
+    private reportAutoFormatFailure(file: TFile, error: Error) {
+        if (error instanceof FormatTimeoutError) {
+            new Notice(`Formatting ${file.basename} failed: ${error.message}`);
         }
+    }
 
-        try {
-            // Expand selection to full lines
-            const selectionRange = {
-                from: editor.getCursor('from'),
-                to: editor.getCursor('to')
-            };
-
-            // Expand to start of first line and end of last line
-            const expandedFrom = {
-                line: selectionRange.from.line,
-                ch: 0
-            };
-            const lastLine = editor.getLine(selectionRange.to.line);
-            const expandedTo = {
-                line: selectionRange.to.line,
-                ch: lastLine.length
-            };
+    /**
+     * A note's current content: what its editor shows when it is open, which
+     * can be ahead of the file on disk.
+     */
+    async readNote(file: TFile): Promise<string> {
+        const view = this.findMarkdownView(file);
+        return view ? view.editor.getValue() : this.app.vault.read(file);
+    }
 
-            // Get the expanded selection text
-            const expandedSelection = editor.getRange(expandedFrom, expandedTo);
-            
-            // Count leading newlines to preserve them
-            const leadingNewlines = this.countLeadingNewlines(expandedSelection);
-            
-            // Strip leading newlines for formatting but preserve the content
-            const contentWithoutLeading = expandedSelection.substring(leadingNewlines);
-            
-            // Ensure we have a newline at the end for proper formatting
-            const contentToFormat = contentWithoutLeading.endsWith('\n') ? contentWithoutLeading : contentWithoutLeading + '\n';
-            
-            // Format the pre-processed selected text content 
-            const formatted = await this.runFormatter(contentToFormat);
-            
-            // Remove trailing newline if we added one
-            let formattedResult = contentWithoutLeading.endsWith('\n') ? formatted : formatted.trimEnd();
-            
-            // Restore leading newlines
-            formattedResult = this.ensureLeadingNewlines(formattedResult, leadingNewlines);
-            
-            // Replace the expanded selection
-            editor.replaceRange(formattedResult, expandedFrom, expandedTo);
-            
-            new Notice('Selection formatted successfully');
-        } catch (error) {
-            console.error('Format error:', error);
-            new Notice(`Formatting failed: ${error.message}`);
+    /**
+     * Replace a note's content, unless it no longer is `before`. A note open in
+     * an editor is changed there in one transaction, so that its selections and
+     * scroll position follow the text and a single undo reverts the change.
+     * Returns whether the note was changed.
+     */
+    private async replaceNoteContent(file: TFile, before: string, after: string): Promise<boolean> {
+        const view = this.findMarkdownView(file);
+        if (view) {
+            if (view.editor.getValue() !== before) {
+                return false;
+            }
+            const editorView = this.getEditorView(view);
+            applyEdits(editorView, textEdits(diffLines(before, after, 0)));
+            clearTouchedRanges(editorView);
+            return true;
         }
+
+        let changed = false;
+        await this.app.vault.process(file, data => {
+            changed = data === before;
+            return changed ? after : data;
+        });
+        return changed;
     }
 
-    async runFormatter(content: string): Promise<string> {
-        // If mdformat is requested and available, use it directly
-        if (this.settings.useMdformat && this.mdformatAvailable && this.mdformatPath) {
-            return this.runMdformat(content);
+    /**
+     * Replace a note's content as `replaceNoteContent` does, with the change
+     * handlers ignoring the write.
+     */
+    private async replaceFormattedContent(file: TFile, before: string, after: string): Promise<boolean> {
+        this.beginFormatting(file.path);
+        try {
+            return await this.replaceNoteContent(file, before, after);
+        } finally {
+            this.endFormatting(file.path);
         }
-        
-        // Otherwise, use the included tight-lists script
-        return this.runTightListsScript(content);
     }
 
-    private async runMdformat(content: string): Promise<string> {
-        return new Promise((resolve, reject) => {
-            const child = spawn(this.mdformatPath!, ['--no-validate', '-'], {
-                stdio: ['pipe', 'pipe', 'pipe']
-            });
+    /**
+     * Mark a note as being written by the plugin, so that the change handlers
+     * ignore its changes until the matching `endFormatting`.
+     */
+    private beginFormatting(notePath: string) {
+        this.currentlyFormatting.set(notePath, (this.currentlyFormatting.get(notePath) ?? 0) + 1);
+    }
 
-            let stdout = '';
-            let stderr = '';
+    private endFormatting(notePath: string) {
+        const count = (this.currentlyFormatting.get(notePath) ?? 1) - 1;
+        if (count > 0) {
+            this.currentlyFormatting.set(notePath, count);
+        } else {
+            this.currentlyFormatting.delete(notePath);
+        }
+    }
 
-            child.stdout.on('data', (data) => {
-                stdout += data.toString();
-            });
+    /**
+     * Remember a format for "Undo last format". Within a batch, the formats add
+     * up to one undo step.
+     */
+    private recordFormat(file: TFile, before: string, after: string): FormatUndoEntry {
+        const entry = { path: file.path, before, after };
+        this.undoneFormats.delete(file.path);
+        if (this.batchUndo) {
+            this.batchUndo.push(entry);
+        } else {
+            this.lastFormat = [entry];
+        }
+        return entry;
+    }
 
-            child.stderr.on('data', (data) => {
-                stderr += data.toString();
-            });
+    /**
+     * Run a batch so that "Undo last format" reverts all of it at once.
+     */
+    async withBatchUndo<T>(task: () => Promise<T>): Promise<T> {
+        if (this.batchUndo) {
+            return task();
+        }
+        const entries: FormatUndoEntry[] = [];
+        this.batchUndo = entries;
+        try {
+            return await task();
+        } finally {
+            this.batchUndo = null;
+            if (entries.length > 0) {
+                this.lastFormat = entries;
+            }
+        }
+    }
 
-            child.on('error', (error: any) => {
-                reject(new Error(`Failed to run mdformat: ${error.message}`));
-            });
+    /**
+     * Restore the notes changed by the last format to their exact content from
+     * before it. Notes edited since are left as they are.
+     */
+    async undoLastFormat() {
+        const entries = this.lastFormat;
+        if (entries.length === 0) {
+            new Notice('No format to undo');
+            return;
+        }
+        this.lastFormat = [];
 
-            child.on('close', (code) => {
-                if (code === 0) {
-                    if (!stdout || stdout.trim() === '') {
-                        reject(new Error('mdformat returned empty output'));
-                    } else {
-                        resolve(stdout);
-                    }
+        let restored = 0;
+        let kept = 0;
+        for (const entry of entries) {
+            const file = this.app.vault.getAbstractFileByPath(entry.path);
+            if (!(file instanceof TFile)) {
+                kept++;
+                continue;
+            }
+
+            this.beginFormatting(file.path);
+            try {
+                if (await this.replaceNoteContent(file, entry.after, entry.before)) {
+                    restored++;
+                    // Until the note is edited again, auto-format would only redo the format
+                    this.undoneFormats.add(file.path);
                 } else {
-                    reject(new Error(`mdformat exited with code ${code}: ${stderr}`));
+                    kept++;
                 }
-            });
+            } catch (error) {
+                console.error('Undo format error:', error);
+                kept++;
+            } finally {
+                this.endFormatting(file.path);
+            }
+        }
 
-            // Write input to stdin
-            child.stdin.write(content);
-            child.stdin.end();
-        });
+        const undone = entries.length === 1
+            ? (restored === 1 ? 'Format undone' : 'The note changed since it was formatted; nothing was undone')
+            : `Format undone in ${restored} note${restored === 1 ? '' : 's'}`;
+        new Notice(entries.length > 1 && kept > 0 ? `${undone}; ${kept} changed since and kept as they are` : undone);
     }
 
-    private async runTightListsScript(content: string): Promise<string> {
-        return new Promise((resolve, reject) => {
-            const child = spawn(this.scriptPath, [], {
-                stdio: ['pipe', 'pipe', 'pipe']
-            });
+    /**
+     * Add a format to the formatting history. Automatic formats that changed
+     * nothing are left out, and so are formats cancelled by a newer one, so
+     * that they don't push the formats that matter out of the log.
+     */
+    private logFormat(file: TFile, trigger: FormatTrigger, started: number, result: FormatResult) {
+        const automatic = !['manual', 'selection', 'preview', 'review'].includes(trigger);
+        if (result.cancelled || (result.outcome === 'unchanged' && automatic)) {
+            return;
+        }
 
-            let stdout = '';
-            let stderr = '';
+        const entry: Omit<HistoryEntry, 'id'> = {
+            time: Date.now(),
+            path: file.path,
+            trigger,
+            engine: this.getEngineName(this.getEffectiveSettings(file)),
+            outcome: result.outcome,
+            linesChanged: 0,
+            duration: Math.round(performance.now() - started),
+            message: result.reason,
+        };
+        if (result.change) {
+            const { before, after } = result.change;
+            entry.linesChanged = countChangedLines(diffLines(before, after, 0));
+            entry.afterHash = contentHash(after);
+            entry.revert = textEdits(diffLines(after, before, 0));
+        }
+        this.history.add(entry);
+        this.historyChanged();
+    }
 
-            child.stdout.on('data', (data) => {
-                stdout += data.toString();
-            });
+    private get historyPath(): string {
+        return `${this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`}/history.json`;
+    }
 
-            child.stderr.on('data', (data) => {
-                stderr += data.toString();
-            });
+    private async loadHistory() {
+        try {
+            const adapter = this.app.vault.adapter;
+            if (await adapter.exists(this.historyPath)) {
+                this.history.load(JSON.parse(await adapter.read(this.historyPath)));
+            }
+        } catch (error) {
+            console.error('Could not load the formatting history:', error);
+        }
+    }
 
-            child.on('error', (error: any) => {
-                if (error.code === 'ENOENT') {
-                    reject(new Error('Formatter script not found. Please ensure md-tight-lists.sh is in the plugin directory.'));
-                } else if (error.code === 'EACCES') {
-                    reject(new Error('Formatter script is not executable. Please check file permissions.'));
-                } else {
-                    reject(error);
-                }
-            });
+    private async saveHistory() {
+        this.historySaveTimer = null;
+        try {
+            await this.app.vault.adapter.write(this.historyPath, JSON.stringify(this.history));
+        } catch (error) {
+            console.error('Could not save the formatting history:', error);
+        }
+    }
 
-            child.on('close', (code) => {
-                if (code === 0) {
-                    resolve(stdout);
-                } else {
-                    reject(new Error(`Formatter exited with code ${code}: ${stderr}`));
-                }
-            });
+    /**
+     * Save the history once formats stop coming in, and show the change in
+     * open history views.
+     */
+    historyChanged() {
+        if (this.historySaveTimer) {
+            clearTimeout(this.historySaveTimer);
+        }
+        this.historySaveTimer = setTimeout(() => this.saveHistory(), HISTORY_SAVE_DELAY);
 
-            // Write input to stdin
-            child.stdin.write(content);
-            child.stdin.end();
-        });
+        for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_HISTORY)) {
+            if (leaf.view instanceof FormatHistoryView) {
+                leaf.view.refresh();
+            }
+        }
     }
 
-    // Helper methods for cursor and selection management
-    private hasActiveSelection(editor: Editor): boolean {
-        const selection = editor.getSelection();
-        return selection.length > 0;
+    /**
+     * Restore a note to its content from right before a logged format, as long
+     * as it is still exactly what that format left.
+     */
+    async revertHistoryEntry(entry: HistoryEntry) {
+        const file = this.app.vault.getAbstractFileByPath(entry.path);
+        if (!(file instanceof TFile)) {
+            new Notice(`${entry.path} no longer exists`);
+            return;
+        }
+        if (!entry.revert || entry.afterHash === undefined || entry.reverted) {
+            new Notice('This format has nothing to revert');
+            return;
+        }
+
+        this.beginFormatting(file.path);
+        try {
+            const content = await this.readNote(file);
+            if (contentHash(content) !== entry.afterHash ||
+                !await this.replaceNoteContent(file, content, applyTextEdits(content, entry.revert))) {
+                new Notice('The note changed since it was formatted; nothing was reverted');
+                return;
+            }
+            entry.reverted = true;
+            // Until the note is edited again, auto-format would only redo the format
+            this.undoneFormats.add(file.path);
+            this.historyChanged();
+            new Notice('Format reverted');
+        } catch (error) {
+            console.error('Revert format error:', error);
+            new Notice(`Reverting failed: ${error.message}`);
+        } finally {
+            this.endFormatting(file.path);
+        }
     }
 
-    private saveCursorPosition(editor: Editor): {line: number, ch: number} {
-        return editor.getCursor();
+    /**
+     * Open the formatting history in the right sidebar, or reveal it when it
+     * is already open.
+     */
+    async showHistory() {
+        const { workspace } = this.app;
+        let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(VIEW_TYPE_HISTORY)[0] ?? null;
+        if (!leaf) {
+            leaf = workspace.getRightLeaf(false);
+            if (!leaf) {
+                return;
+            }
+            await leaf.setViewState({ type: VIEW_TYPE_HISTORY, active: true });
+        }
+        workspace.revealLeaf(leaf);
     }
 
-    private restoreCursorPosition(editor: Editor, pos: {line: number, ch: number}) {
-        // Get document length to bound the position
-        const lastLine = editor.lastLine();
-        const boundedLine = Math.min(pos.line, lastLine);
-        const lineLength = editor.getLine(boundedLine).length;
-        const boundedCh = Math.min(pos.ch, lineLength);
-        
-        // Set the post-format bounded cursor position
-        editor.setCursor({line: boundedLine, ch: boundedCh});
+    /**
+     * The Markdown view showing a file, preferring the active one.
+     */
+    private findMarkdownView(file: TFile): MarkdownView | null {
+        const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+        if (activeView && activeView.file === file) {
+            return activeView;
+        }
+        for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+            if (leaf.view instanceof MarkdownView && leaf.view.file === file) {
+                return leaf.view;
+            }
+        }
+        return null;
+    }
 
-        // Clear any selection
-        editor.setSelection({line: boundedLine, ch: boundedCh}, {line: boundedLine, ch: boundedCh});
+    /**
+     * Run the formatter over a note's content with the note's effective settings.
+     */
+    async formatNoteContent(file: TFile, content: string, signal?: AbortSignal): Promise<string> {
+        // Ensure content ends with newline for proper formatting
+        const contentToFormat = content.endsWith('\n') ? content : content + '\n';
+        const formatted = await this.runFormatter(contentToFormat, this.getEffectiveSettings(file), signal);
+        
+        // Preserve original newline ending
+        return content.endsWith('\n') ? formatted : formatted.trimEnd();
     }
 
-    private countLeadingNewlines(text: string): number {
-        const match = text.match(/^(\n*)/);
-        return match ? match[1].length : 0;
+    /**
+     * Format blocks of a note's lines, each on its own with the note's
+     * settings, and give the note with the results in their place.
+     */
+    private async formatNoteBlocks(file: TFile, lines: string[], blocks: { start: number, end: number }[],
+                                   signal?: AbortSignal): Promise<string> {
+        const settings = this.getEffectiveSettings(file);
+        const formatted: string[] = [];
+        for (const block of blocks) {
+            const text = lines.slice(block.start, block.end + 1).join('\n') + '\n';
+            formatted.push(await this.runFormatter(text, settings, signal));
+        }
+        return spliceBlocks(lines, blocks, formatted);
+    }
+
+    /**
+     * Format a note's content to write it back, cancelling any format of the
+     * same note that is still running: its result would be outdated.
+     */
+    private async formatLatest(file: TFile, format: (signal: AbortSignal) => Promise<string>): Promise<string> {
+        this.formatRuns.get(file.path)?.abort();
+        const run = new AbortController();
+        this.formatRuns.set(file.path, run);
+        try {
+            return await format(run.signal);
+        } finally {
+            if (this.formatRuns.get(file.path) === run) {
+                this.formatRuns.delete(file.path);
+            }
+        }
+    }
+
+    /**
+     * Write reviewed formatting to a note, unless the note changed since the
+     * review started from `original`.
+     */
+    async writeReviewedContent(file: TFile, original: string, result: string, trigger: FormatTrigger): Promise<FormatResult> {
+        const started = performance.now();
+        const outcome = await this.writeReviewedChanges(file, original, result);
+        this.logFormat(file, trigger, started, outcome);
+        return outcome;
+    }
+
+    private async writeReviewedChanges(file: TFile, original: string, result: string): Promise<FormatResult> {
+        if (result === original) {
+            return { outcome: 'unchanged' };
+        }
+
+        this.beginFormatting(file.path);
+        try {
+            if (!await this.replaceNoteContent(file, original, result)) {
+                return { outcome: 'failed', reason: 'note changed during review' };
+            }
+            return { outcome: 'changed', change: this.recordFormat(file, original, result) };
+        } catch (error) {
+            console.error('Format error:', error);
+            return { outcome: 'failed', reason: error.message };
+        } finally {
+            this.endFormatting(file.path);
+        }
+    }
+
+    /**
+     * Show the changes formatting would make to the active note, to apply them
+     * hunk by hunk.
+     */
+    async previewCurrentFile() {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== 'md') {
+            new Notice('No active markdown file');
+            return;
+        }
+        if (this.getNoteOverrides(file)?.formattingEnabled === false) {
+            new Notice('Formatting is disabled in this note\'s frontmatter');
+            return;
+        }
+
+        try {
+            const content = await this.readNote(file);
+            const formatted = await this.formatNoteContent(file, content);
+            if (formatted === content) {
+                new Notice('No formatting changes needed');
+                return;
+            }
+
+            new FormatPreviewModal(this.app, file.path, diffLines(content, formatted), async (result) => {
+                const outcome = await this.writeReviewedContent(file, content, result, 'preview');
+                if (outcome.outcome === 'failed') {
+                    new Notice(`Formatting failed: ${outcome.reason}`);
+                } else if (outcome.outcome === 'changed') {
+                    new Notice('File formatted successfully');
+                }
+            }).open();
+        } catch (error) {
+            console.error('Format error:', error);
+            new Notice(`Formatting failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Open the batch format modal for every note in a folder and its subfolders.
+     */
+    formatFolder(folder: TFolder) {
+        const prefix = folder.isRoot() ? '' : folder.path + '/';
+        const files = this.app.vault.getMarkdownFiles()
+            .filter(file => file.path.startsWith(prefix))
+            .sort((a, b) => a.path.localeCompare(b.path));
+
+        if (files.length === 0) {
+            new Notice(`No notes found in ${folder.isRoot() ? 'the vault' : `"${folder.path}"`}`);
+            return;
+        }
+
+        new BatchFormatModal(this.app, this, folder, files).open();
+    }
+
+    /**
+     * Why a batch format leaves a file alone, or null to format it. Notes that
+     * a rule, folder rule or their own frontmatter keep from being auto-formatted
+     * are skipped; the global auto-format setting does not apply to batches.
+     */
+    getBatchSkipReason(file: TFile): string | null {
+        const decision = this.explainConfiguredAutoFormat(file);
+        if (!decision.enabled && decision.source !== 'global') {
+            return decision.reason;
+        }
+        return null;
+    }
+
+    /**
+     * Format files with at most BATCH_CONCURRENCY in flight, adding the outcomes
+     * to `report`. Stops starting new files once `isCancelled` returns true;
+     * files already in flight finish.
+     */
+    async formatFiles(files: TFile[], onProgress: (done: number, file: TFile) => void, isCancelled: () => boolean,
+                      report: BatchReport = emptyBatchReport()): Promise<BatchReport> {
+        const queue = [...files];
+        let done = 0;
+
+        const worker = async () => {
+            let file: TFile | undefined;
+            while (!isCancelled() && (file = queue.shift())) {
+                const skipReason = this.getBatchSkipReason(file);
+                const result: FormatResult = skipReason
+                    ? { outcome: 'skipped', reason: skipReason }
+                    : await this.formatFile(file, 'batch');
+
+                if (result.outcome === 'changed' || result.outcome === 'unchanged') {
+                    report[result.outcome].push(file.path);
+                } else {
+                    report[result.outcome].push({ path: file.path, reason: result.reason ?? '' });
+                }
+                onProgress(++done, file);
+            }
+        };
+
+        await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, files.length) }, worker));
+        report.cancelled = queue.length > 0;
+        return report;
+    }
+
+    async formatSelection(editor: Editor, info: MarkdownView | MarkdownFileInfo) {
+        const selection = editor.getSelection();
+        if (!selection) {
+            new Notice('No text selected');
+            return;
+        }
+
+        const file = this.app.workspace.getActiveFile();
+        if (file && this.getNoteOverrides(file)?.formattingEnabled === false) {
+            new Notice('Formatting is disabled in this note\'s frontmatter');
+            return;
+        }
+
+        const started = performance.now();
+        try {
+            // Expand selection to full lines
+            const selectionRange = {
+                from: editor.getCursor('from'),
+                to: editor.getCursor('to')
+            };
+
+            // Expand to start of first line and end of last line
+            const expandedFrom = {
+                line: selectionRange.from.line,
+                ch: 0
+            };
+            const lastLine = editor.getLine(selectionRange.to.line);
+            const expandedTo = {
+                line: selectionRange.to.line,
+                ch: lastLine.length
+            };
+
+            // Get the expanded selection text
+            const expandedSelection = editor.getRange(expandedFrom, expandedTo);
+            
+            // Count leading newlines to preserve them
+            const leadingNewlines = this.countLeadingNewlines(expandedSelection);
+            
+            // Strip leading newlines for formatting but preserve the content
+            const contentWithoutLeading = expandedSelection.substring(leadingNewlines);
+            
+            // Ensure we have a newline at the end for proper formatting
+            const contentToFormat = contentWithoutLeading.endsWith('\n') ? contentWithoutLeading : contentWithoutLeading + '\n';
+            
+            // Format the pre-processed selected text content 
+            const formatted = await this.runFormatter(contentToFormat, this.getEffectiveSettings(file));
+            
+            // Remove trailing newline if we added one
+            let formattedResult = contentWithoutLeading.endsWith('\n') ? formatted : formatted.trimEnd();
+            
+            // Restore leading newlines
+            formattedResult = this.ensureLeadingNewlines(formattedResult, leadingNewlines);
+            
+            // Replace the expanded selection, keeping the cursor where it was in the text
+            if (editor.getRange(expandedFrom, expandedTo) !== expandedSelection) {
+                throw new Error('selection changed while formatting');
+            }
+            const edits = textEdits(diffLines(expandedSelection, formattedResult, 0));
+            const before = editor.getValue();
+            if (info instanceof MarkdownView) {
+                applyEdits(this.getEditorView(info), edits, editor.posToOffset(expandedFrom));
+            } else {
+                editor.replaceRange(formattedResult, expandedFrom, expandedTo);
+            }
+            if (file) {
+                const after = editor.getValue();
+                this.logFormat(file, 'selection', started, after === before
+                    ? { outcome: 'unchanged' }
+                    : { outcome: 'changed', change: this.recordFormat(file, before, after) });
+            }
+            
+            new Notice('Selection formatted successfully');
+        } catch (error) {
+            console.error('Format error:', error);
+            if (file) {
+                this.logFormat(file, 'selection', started, { outcome: 'failed', reason: error.message });
+            }
+            new Notice(`Formatting failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Format content with the given settings. Formatter processes still running
+     * are killed when `signal` aborts.
+     */
+    async runFormatter(content: string, settings: TightListsSettings = this.settings, signal?: AbortSignal): Promise<string> {
+        const segments = splitExemptRegions(content);
+        if (segments.length === 1 && !segments[0].exempt) {
+            return this.runFormatterOnSegment(content, settings, signal);
+        }
+
+        // Format around regions exempted by tightlists directives, keeping the
+        // empty lines that separate each formatted part from the next region
+        const results: string[] = [];
+        for (const [i, segment] of segments.entries()) {
+            if (segment.exempt) {
+                results.push(segment.text);
+                continue;
+            }
+            const formatted = await this.runFormatterOnSegment(segment.text, settings, signal);
+            const isLast = i === segments.length - 1;
+            results.push(isLast ? formatted : this.keepTrailingBlankLines(segment.text, formatted));
+        }
+        return results.join('');
+    }
+
+    private keepTrailingBlankLines(original: string, formatted: string): string {
+        const trailingLineEndings = (text: string) => {
+            const match = text.match(/(\r?\n)*$/);
+            return match ? match[0].split('\n').length - 1 : 0;
+        };
+        const missing = trailingLineEndings(original) - trailingLineEndings(formatted);
+        const lineEnding = original.includes('\r\n') ? '\r\n' : '\n';
+        return missing > 0 ? formatted + lineEnding.repeat(missing) : formatted;
+    }
+
+    /**
+     * The formatter that `runFormatter` uses with these settings: a pipeline
+     * with enabled steps, then mdformat when it was found, then the shell
+     * script on desktop, and otherwise the built-in engine.
+     */
+    getEngine(settings: TightListsSettings = this.settings): FormatterEngine {
+        if (settings.usePipeline && settings.pipeline.some(step => step.enabled)) {
+            return 'pipeline';
+        }
+        if (settings.useMdformat && this.mdformatAvailable && this.mdformatPath) {
+            return 'mdformat';
+        }
+        if (settings.useShellScript && Platform.isDesktopApp) {
+            return 'script';
+        }
+        return 'builtin';
+    }
+
+    getEngineName(settings: TightListsSettings = this.settings): string {
+        return ENGINE_NAMES[this.getEngine(settings)];
+    }
+
+    private async runFormatterOnSegment(content: string, settings: TightListsSettings, signal?: AbortSignal): Promise<string> {
+        const options = this.getFormatterOptions(settings);
+
+        switch (this.getEngine(settings)) {
+            case 'pipeline':
+                return this.applyListNormalizations(await this.runPipeline(content, settings.pipeline, options, signal), options);
+            case 'mdformat':
+                return this.applyListNormalizations(await this.runMdformat(content, settings, signal), options);
+            case 'script':
+                // The shell script is kept as an optional desktop-only fallback
+                return this.applyListNormalizations(await this.runTightListsScript(content, signal), options);
+            default:
+                return formatTightLists(content, options);
+        }
+    }
+
+    private getFormatterOptions(settings: TightListsSettings): Partial<FormatterOptions> {
+        return {
+            normalizeCheckboxes: settings.normalizeCheckboxes,
+            orderedNumbering: settings.orderedListNumbering,
+            orderedDelimiter: settings.orderedListDelimiter,
+            bulletMarker: settings.bulletMarker,
+            alternateBulletMarkers: settings.alternateBulletMarkers,
+            listIndent: settings.listIndent,
+        };
+    }
+
+    private applyListNormalizations(content: string, options: Partial<FormatterOptions>): string {
+        // External formatters already handle empty lines; only run the engine's
+        // normalizations on their output when any are enabled
+        const enabled = options.normalizeCheckboxes ||
+            options.orderedNumbering !== 'keep' ||
+            options.orderedDelimiter !== 'keep' ||
+            options.bulletMarker !== 'keep' ||
+            options.alternateBulletMarkers ||
+            options.listIndent !== 'keep';
+        return enabled ? normalizeLists(content, options) : content;
+    }
+
+    /**
+     * Run the enabled pipeline steps in order, each on the output of the one
+     * before. The first step that fails stops the pipeline.
+     */
+    private async runPipeline(content: string, steps: PipelineStep[], options: Partial<FormatterOptions>, signal?: AbortSignal): Promise<string> {
+        let result = content;
+        for (const [i, step] of steps.entries()) {
+            if (!step.enabled) {
+                continue;
+            }
+            try {
+                result = step.kind === 'builtin'
+                    ? formatTightLists(result, options)
+                    : await this.runCommandStep(step, result, signal);
+            } catch (error) {
+                if (!(error instanceof FormatCancelledError)) {
+                    // Keeps the error's class, so timeouts are still reported as such
+                    error.message = `Pipeline step ${i + 1} (${describeStep(step)}) failed: ${error.message}`;
+                }
+                throw error;
+            }
+        }
+        return result;
+    }
+
+    private async runCommandStep(step: PipelineStep, content: string, signal?: AbortSignal): Promise<string> {
+        if (!Platform.isDesktopApp) {
+            throw new Error('external commands only run in the desktop app');
+        }
+        if (!step.command) {
+            throw new Error('no command set');
+        }
+
+        const vaultPath = (this.app.vault.adapter as any).basePath as string;
+        const cwd = path.resolve(vaultPath, step.cwd);
+        const args = parseArguments(step.args);
+
+        if (step.input === 'stdin') {
+            const output = await this.runCommand(step.command, expandArguments(args, { vault: vaultPath }), content, { cwd, timeout: step.timeout, signal });
+            if (output.trim() === '' && content.trim() !== '') {
+                throw new Error('command returned empty output');
+            }
+            return output;
+        }
+
+        // The command edits a temporary copy of the note in place
+        const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'tight-lists-'));
+        const tempFile = path.join(tempDir, 'note.md');
+        try {
+            await fs.promises.writeFile(tempFile, content, 'utf8');
+            const fileArgs = expandArguments(args, { vault: vaultPath, file: tempFile });
+            await this.runCommand(step.command, args.some(arg => arg.includes('{file}')) ? fileArgs : [...fileArgs, tempFile], '', { cwd, timeout: step.timeout, signal });
+            return await fs.promises.readFile(tempFile, 'utf8');
+        } finally {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Run a command with `input` on stdin and resolve with its stdout. Fails on
+     * a non-zero exit code.
+     */
+    private async runCommand(command: string, args: string[], input: string, options: ProcessOptions): Promise<string> {
+        let result: ProcessResult;
+        try {
+            result = await this.runProcess(command, args, input, options);
+        } catch (error) {
+            throw (error as NodeJS.ErrnoException).code === 'ENOENT' ? new Error(`${command} not found`) : error;
+        }
+        if (result.code !== 0) {
+            const message = `exited with code ${result.code}${result.stderr ? `: ${result.stderr.trim()}` : ''}`;
+            this.recordFormatterFailure(command, args, message, result.stderr);
+            throw new Error(message);
+        }
+        return result.stdout;
+    }
+
+    /**
+     * Run a formatter process with `input` on stdin, once one of the
+     * `maxFormatterProcesses` slots is free. The process is killed after
+     * `timeout` seconds (failing with a FormatTimeoutError) or when `signal`
+     * aborts (failing with a FormatCancelledError). Resolves with the exit code
+     * and output however the process exits.
+     */
+    private async runProcess(command: string, args: string[], input: string, options: ProcessOptions): Promise<ProcessResult> {
+        const { cwd, timeout, signal } = options;
+        const release = await this.processSlots.acquire(signal);
+        try {
+            return await new Promise<ProcessResult>((resolve, reject) => {
+                const child = spawn(command, args, {
+                    cwd,
+                    stdio: ['pipe', 'pipe', 'pipe']
+                });
+
+                let stdout = '';
+                let stderr = '';
+                let stopReason: Error | null = null;
+                let killTimer: NodeJS.Timeout | null = null;
+
+                // Ask the process to stop, and force it if it doesn't
+                const stop = (reason: Error) => {
+                    if (stopReason) {
+                        return;
+                    }
+                    stopReason = reason;
+                    child.kill();
+                    killTimer = setTimeout(() => child.kill('SIGKILL'), KILL_GRACE_PERIOD);
+                };
+                const timer = setTimeout(() => stop(new FormatTimeoutError(path.basename(command), timeout)), timeout * 1000);
+                const cancel = () => stop(new FormatCancelledError());
+                signal?.addEventListener('abort', cancel);
+                const cleanUp = () => {
+                    clearTimeout(timer);
+                    if (killTimer) {
+                        clearTimeout(killTimer);
+                    }
+                    signal?.removeEventListener('abort', cancel);
+                };
+
+                child.stdout.on('data', (data) => {
+                    stdout += data.toString();
+                });
+
+                child.stderr.on('data', (data) => {
+                    stderr += data.toString();
+                });
+
+                child.on('error', (error) => {
+                    cleanUp();
+                    this.recordFormatterFailure(command, args, error.message, stderr);
+                    reject(error);
+                });
+
+                child.on('close', (code) => {
+                    cleanUp();
+                    if (stopReason) {
+                        if (stopReason instanceof FormatTimeoutError) {
+                            this.recordFormatterFailure(command, args, stopReason.message, stderr);
+                        }
+                        reject(stopReason);
+                    } else {
+                        resolve({ code, stdout, stderr });
+                    }
+                });
+
+                // A command that exits without reading its input closes stdin early
+                child.stdin.on('error', () => undefined);
+                child.stdin.write(input);
+                child.stdin.end();
+            });
+        } finally {
+            release();
+        }
+    }
+
+    private recordFormatterFailure(command: string, args: string[], message: string, stderr: string) {
+        this.lastFormatterFailure = { time: Date.now(), command, args, message, stderr };
+    }
+
+    private async runMdformat(content: string, settings: TightListsSettings, signal?: AbortSignal): Promise<string> {
+        const options: MdformatOptions = {
+            wrap: settings.mdformatWrap,
+            number: settings.mdformatNumber,
+            endOfLine: settings.mdformatEndOfLine,
+            // Without --extensions, mdformat enables every installed extension
+            extensions: settings.mdformatExtensions,
+        };
+        if (/^---\r?\n/.test(content) && !this.mdformatHandlesFrontmatter(options.extensions)) {
+            throw new Error('mdformat would mangle the frontmatter of this note. Install or enable the mdformat-frontmatter extension.');
+        }
+
+        // mdformat reads .mdformat.toml from the directory it runs in: the
+        // vault's own config, or a generated one in a temporary directory
+        const vaultPath = (this.app.vault.adapter as any).basePath as string;
+        if (!settings.mdformatConfigFile) {
+            return this.spawnMdformat(content, ['--no-validate', ...mdformatFlags(options), '-'], vaultPath, signal);
+        }
+        const configDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'tight-lists-'));
+        try {
+            await fs.promises.writeFile(path.join(configDir, '.mdformat.toml'), mdformatToml(options), 'utf8');
+            return await this.spawnMdformat(content, ['--no-validate', '-'], configDir, signal);
+        } finally {
+            await fs.promises.rm(configDir, { recursive: true, force: true });
+        }
+    }
+
+    private async spawnMdformat(content: string, args: string[], cwd: string, signal?: AbortSignal): Promise<string> {
+        let result: ProcessResult;
+        try {
+            result = await this.runProcess(this.mdformatPath!, args, content, { cwd, timeout: this.settings.formatterTimeout, signal });
+        } catch (error) {
+            if (error instanceof FormatCancelledError || error instanceof FormatTimeoutError) {
+                throw error;
+            }
+            throw new Error(`Failed to run mdformat: ${error.message}`);
+        }
+
+        const fail = (message: string) => {
+            this.recordFormatterFailure(this.mdformatPath!, args, message, result.stderr);
+            return new Error(message);
+        };
+        if (result.code !== 0) {
+            throw fail(`mdformat exited with code ${result.code}: ${result.stderr}`);
+        }
+        if (result.stdout.trim() === '') {
+            throw fail('mdformat returned empty output');
+        }
+        return result.stdout;
+    }
+
+    private async runTightListsScript(content: string, signal?: AbortSignal): Promise<string> {
+        let result: ProcessResult;
+        try {
+            result = await this.runProcess(this.scriptPath, [], content, { timeout: this.settings.formatterTimeout, signal });
+        } catch (error) {
+            const code = (error as NodeJS.ErrnoException).code;
+            if (code === 'ENOENT') {
+                throw new Error('Formatter script not found. Please ensure md-tight-lists.sh is in the plugin directory.');
+            } else if (code === 'EACCES') {
+                throw new Error('Formatter script is not executable. Please check file permissions.');
+            }
+            throw error;
+        }
+
+        if (result.code !== 0) {
+            const message = `Formatter exited with code ${result.code}: ${result.stderr}`;
+            this.recordFormatterFailure(this.scriptPath, [], message, result.stderr);
+            throw new Error(message);
+        }
+        return result.stdout;
+    }
+
+    // Helper methods for cursor and selection management
+    private hasActiveSelection(editor: Editor): boolean {
+        const selection = editor.getSelection();
+        return selection.length > 0;
+    }
+
+    private countLeadingNewlines(text: string): number {
+        const match = text.match(/^(\n*)/);
+        return match ? match[1].length : 0;
     }
 
     private ensureLeadingNewlines(text: string, count: number): string {
@@ -571,26 +2312,39 @@ export default class TightListsFormatterPlugin extends Plugin {
         }
         
         const file = activeView.file;
-        const isAutoFormatEnabled = this.shouldAutoFormatFile(file);
+        const decision = this.explainAutoFormat(file);
+        const isAutoFormatEnabled = decision.enabled;
+        const noteOverrides = this.getNoteOverrides(file);
         
         // Determine which type of auto-format is active
         let statusText = '';
         let statusClass = '';
+        let statusTitle = '';
         
-        if (!isAutoFormatEnabled) {
+        if (decision.source === 'paused') {
+            statusText = '⏸ paused';
+            statusClass = 'tight-lists-status-disabled';
+            statusTitle = `Auto-format ${decision.reason}`;
+        } else if (noteOverrides) {
+            // The note's frontmatter overrides folder and global settings
+            statusText = isAutoFormatEnabled ? '◈ notefmt' : '◇ notefmt';
+            statusClass = isAutoFormatEnabled ? 'tight-lists-status-note' : 'tight-lists-status-note tight-lists-status-disabled';
+            statusTitle = !noteOverrides.formattingEnabled
+                ? 'Formatting disabled (note frontmatter)'
+                : `Auto-format ${isAutoFormatEnabled ? 'enabled' : 'disabled'} (note frontmatter)`;
+        } else if (!isAutoFormatEnabled) {
             // Auto-format is disabled
             statusText = '◎ manual';
             statusClass = 'tight-lists-status-disabled';
+        } else if (decision.source === 'rule') {
+            statusText = '⦿ rulefmt';
+            statusClass = 'tight-lists-status-folder';
+        } else if (decision.source === 'folder') {
+            statusText = '⦿ dirfmt';
+            statusClass = 'tight-lists-status-folder';
         } else {
-            // Check if it's folder-based or global
-            const isFolderBased = this.isFolderBasedAutoFormat(file);
-            if (isFolderBased) {
-                statusText = '⦿ dirfmt';
-                statusClass = 'tight-lists-status-folder';
-            } else {
-                statusText = '◉ autofmt';
-                statusClass = 'tight-lists-status-global';
-            }
+            statusText = '◉ autofmt';
+            statusClass = 'tight-lists-status-global';
         }
         
         // Create status bar element
@@ -600,57 +2354,156 @@ export default class TightListsFormatterPlugin extends Plugin {
         });
         
         // Add hover text
-        statusEl.setAttr('title', 
-            isAutoFormatEnabled 
-                ? `Auto-format enabled${this.isFolderBasedAutoFormat(file) ? ' (folder rule)' : ' (global)'}`
-                : 'Auto-format disabled'
+        statusEl.setAttr('title', (statusTitle ||
+            `Auto-format ${isAutoFormatEnabled ? 'enabled' : 'disabled'} (${decision.reason})`) + '. Click for actions.'
         );
-        
-        this.statusBarItem.show();
-    }
+        statusEl.addEventListener('click', (event) => this.showStatusMenu(file, event));
 
-    private isFolderBasedAutoFormat(file: TFile): boolean {
-        const filePath = file.path;
-        
-        // Check if any folder rule applies to this file
-        for (const [folderPath, rule] of Object.entries(this.settings.folderRules)) {
-            const isInFolder = filePath.startsWith(folderPath + '/') || 
-                              filePath === folderPath ||
-                              (filePath.startsWith(folderPath) && filePath.charAt(folderPath.length) === '/');
-            
-            if (isInFolder && rule.enabled) {
-                return true;
+        // Check mode issue count; clicking it fixes them all
+        if (this.settings.checkMode) {
+            const count = this.lintIssues.length;
+            const issuesEl = this.statusBarItem.createEl('span', {
+                text: count > 0 ? `⚠ ${count}` : '✓',
+                cls: `tight-lists-status tight-lists-status-issues${count > 0 ? '' : ' tight-lists-status-disabled'}`
+            });
+            issuesEl.setAttr('title', count > 0
+                ? `${count} list formatting issue${count === 1 ? '' : 's'}. Click to fix all.`
+                : 'No list formatting issues');
+            if (count > 0) {
+                issuesEl.addEventListener('click', () => this.fixAllIssues());
             }
         }
         
-        return false;
+        this.statusBarItem.show();
     }
 
-    private async triggerEventBasedFormat(file: TFile, trigger: string) {
-        // Check if file should be auto-formatted
-        if (!this.shouldAutoFormatFile(file)) {
-            return;
-        }
-        
-        // Check if event-based formatting is enabled
-        if (!this.settings.eventBasedFormatting) {
-            return;
-        }
-        
-        // Avoid formatting if already in progress
-        if (this.currentlyFormatting.has(file.path)) {
-            return;
+    /**
+     * Quick actions for the active note, opened by clicking the status bar.
+     */
+    private showStatusMenu(file: TFile, event: MouseEvent) {
+        const menu = new Menu();
+
+        menu.addItem(item => item
+            .setTitle('Format now')
+            .setIcon('list')
+            .onClick(() => this.formatFile(file)));
+        menu.addItem(item => item
+            .setTitle('Preview formatting')
+            .setIcon('file-diff')
+            .onClick(() => this.previewCurrentFile()));
+        if (this.settings.checkMode && this.lintIssues.length > 0) {
+            menu.addItem(item => item
+                .setTitle('Fix all list issues')
+                .setIcon('wrench')
+                .onClick(() => this.fixAllIssues()));
+        }
+
+        menu.addSeparator();
+        const notePaused = this.pausedNotes.has(file.path);
+        menu.addItem(item => item
+            .setTitle(notePaused ? 'Resume auto-format for this note' : 'Pause auto-format for this note')
+            .setIcon(notePaused ? 'play' : 'pause')
+            .onClick(() => {
+                if (notePaused) {
+                    this.pausedNotes.delete(file.path);
+                } else {
+                    this.pausedNotes.add(file.path);
+                }
+                this.updateStatusBar();
+            }));
+        menu.addItem(item => item
+            .setTitle(this.autoFormatPaused ? 'Resume auto-format' : 'Pause auto-format for this session')
+            .setIcon(this.autoFormatPaused ? 'play' : 'pause')
+            .onClick(() => {
+                this.autoFormatPaused = !this.autoFormatPaused;
+                this.updateStatusBar();
+            }));
+
+        const folder = file.parent;
+        if (folder && !folder.isRoot()) {
+            const hasRule = this.settings.folderRules[folder.path] !== undefined;
+            menu.addItem(item => item
+                .setTitle(`${hasRule ? 'Remove' : 'Add'} folder rule for ${folder.path}/`)
+                .setIcon('folder')
+                .onClick(async () => {
+                    if (hasRule) {
+                        delete this.settings.folderRules[folder.path];
+                    } else {
+                        this.settings.folderRules[folder.path] = { enabled: true, profile: {} };
+                    }
+                    await this.saveSettings();
+                    new Notice(`${hasRule ? 'Removed' : 'Added'} folder rule for "${folder.path}"`);
+                }));
+        }
+
+        menu.addSeparator();
+        const engine = this.getEngine();
+        for (const available of this.getAvailableEngines()) {
+            menu.addItem(item => item
+                .setTitle(`Use ${ENGINE_NAMES[available]}`)
+                .setChecked(available === engine)
+                .onClick(() => this.setEngine(available)));
+        }
+        const noteEngine = this.getEngineName(this.getEffectiveSettings(file));
+        if (noteEngine !== ENGINE_NAMES[engine]) {
+            menu.addItem(item => item
+                .setTitle(`This note uses ${noteEngine} from its profile`)
+                .setDisabled(true));
+        }
+
+        menu.addSeparator();
+        menu.addItem(item => item
+            .setTitle('Why is this note auto-formatted?')
+            .setIcon('help-circle')
+            .onClick(() => {
+                const decision = this.explainAutoFormat(file);
+                new Notice(`${file.basename}: auto-format ${decision.enabled ? 'on' : 'off'}, decided by ${decision.reason}. Formatted with ${noteEngine}.`);
+            }));
+
+        menu.showAtMouseEvent(event);
+    }
+
+    /**
+     * Formatters that can be chosen globally on this device.
+     */
+    private getAvailableEngines(): FormatterEngine[] {
+        const engines: FormatterEngine[] = ['builtin'];
+        if (this.mdformatAvailable && this.mdformatPath) {
+            engines.push('mdformat');
+        }
+        if (Platform.isDesktopApp) {
+            engines.push('script');
+        }
+        if (this.settings.pipeline.some(step => step.enabled)) {
+            engines.push('pipeline');
+        }
+        return engines;
+    }
+
+    private async setEngine(engine: FormatterEngine) {
+        Object.assign(this.settings, engineSettings(engine));
+        await this.saveSettings();
+        new Notice(`Formatting with ${ENGINE_NAMES[engine]}`);
+    }
+
+    private async triggerEventBasedFormat(file: TFile, trigger: FormatTrigger) {
+        // Check if file should be auto-formatted
+        if (!this.shouldAutoFormatFile(file)) {
+            return;
         }
         
-        // Get the editor for cursor preservation (if file is currently open)
-        let editor: Editor | undefined;
-        const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-        if (activeView && activeView.file === file) {
-            editor = activeView.editor;
+        // Check if event-based formatting is enabled
+        if (!this.getEffectiveSettings(file).eventBasedFormatting) {
+            return;
+        }
+        
+        // Keep an undone format undone until the note is edited
+        if (this.undoneFormats.has(file.path)) {
+            return;
         }
         
         // Format the file
-        await this.formatFile(file, true, editor);  // true = silent mode for auto-format
+        await this.formatFile(file, trigger);
     }
 }
 
@@ -689,6 +2542,34 @@ class TightListsSettingTab extends PluginSettingTab {
                 }));
 
         // mdformat section
+        if (Platform.isDesktopApp) {
+            new Setting(containerEl)
+                .setName('mdformat executable')
+                .setDesc(this.plugin.mdformatPath
+                    ? `Found: ${this.plugin.mdformatPath}. Set a path to an mdformat executable or a virtualenv to use another one; leave empty to search ~/.local/bin, Homebrew and PATH.`
+                    : 'Not found. Set a path to an mdformat executable or a virtualenv, or leave empty to search ~/.local/bin, Homebrew and PATH.')
+                .addText(text => text
+                    .setPlaceholder('Search automatically')
+                    .setValue(this.plugin.settings.mdformatExecutable)
+                    .onChange(async (value) => {
+                        this.plugin.settings.mdformatExecutable = value.trim();
+                        await this.plugin.saveSettings();
+                    }))
+                .addButton(button => button
+                    .setButtonText('Re-detect')
+                    .onClick(async () => {
+                        button.setDisabled(true);
+                        await this.plugin.detectMdformat();
+                        new Notice(this.plugin.mdformatPath ? `mdformat found: ${this.plugin.mdformatPath}` : 'mdformat not found');
+                        this.display();
+                    }))
+                .addButton(button => button
+                    .setButtonText('Diagnostics')
+                    .onClick(() => {
+                        new DiagnosticsModal(this.app, this.plugin).open();
+                    }));
+        }
+
         if (this.plugin.mdformatAvailable) {
             // Show toggle when mdformat is available
             const mdformatSetting = new Setting(containerEl)
@@ -705,250 +2586,1560 @@ class TightListsSettingTab extends PluginSettingTab {
             } else {
                 mdformatSetting.setDesc('⚠️ mdformat available but tight-lists plugin not found. Install with: pipx inject mdformat mdformat-tight-lists');
             }
-        } else {
+
+            if (!this.plugin.mdformatHandlesFrontmatter(this.plugin.settings.mdformatExtensions)) {
+                new Setting(containerEl)
+                    .setName('⚠️ Frontmatter not supported')
+                    .setDesc(this.plugin.mdformatInstalledExtensions?.includes('frontmatter')
+                        ? 'The frontmatter extension is not enabled below. mdformat would mangle note properties, so notes with frontmatter are not formatted with mdformat.'
+                        : 'mdformat-frontmatter is not installed. mdformat would mangle note properties, so notes with frontmatter are not formatted with mdformat. Install with: pipx inject mdformat mdformat-frontmatter');
+            }
+
+            const installed = this.plugin.mdformatInstalledExtensions;
+            if (installed && installed.length > 0) {
+                this.displayMdformatExtensions(containerEl, installed);
+            } else {
+                new Setting(containerEl)
+                    .setName('mdformat extensions')
+                    .setDesc('Comma-separated extensions to enable (e.g. tight_lists, frontmatter). Leave empty to enable all installed extensions.')
+                    .addText(text => text
+                        .setPlaceholder('All installed')
+                        .setValue(this.plugin.settings.mdformatExtensions.join(', '))
+                        .onChange(async (value) => {
+                            this.plugin.settings.mdformatExtensions = parseExtensionList(value);
+                            await this.plugin.saveSettings();
+                        }));
+            }
+
+            new Setting(containerEl)
+                .setName('mdformat line wrapping')
+                .setDesc('"keep" leaves line breaks as written, "no" joins paragraph lines, or a number wraps lines at that length')
+                .addText(text => text
+                    .setPlaceholder('keep')
+                    .setValue(this.plugin.settings.mdformatWrap)
+                    .onChange(async (value) => {
+                        const wrap = value.trim() || 'keep';
+                        if (isValidWrap(wrap)) {
+                            this.plugin.settings.mdformatWrap = wrap;
+                            await this.plugin.saveSettings();
+                        }
+                    }));
+
+            new Setting(containerEl)
+                .setName('mdformat consecutive numbering')
+                .setDesc('Number ordered lists 1, 2, 3 instead of 1, 1, 1 (--number)')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.mdformatNumber)
+                    .onChange(async (value) => {
+                        this.plugin.settings.mdformatNumber = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('mdformat line endings')
+                .addDropdown(dropdown => dropdown
+                    .addOption('lf', 'LF')
+                    .addOption('crlf', 'CRLF')
+                    .addOption('keep', 'Keep as is')
+                    .setValue(this.plugin.settings.mdformatEndOfLine)
+                    .onChange(async (value) => {
+                        this.plugin.settings.mdformatEndOfLine = value as MdformatEndOfLine;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Pass mdformat options as')
+                .setDesc('Command-line flags are combined with a .mdformat.toml in the vault root. A generated .mdformat.toml replaces it; mdformat 0.7.18 or later is needed for extensions in it.')
+                .addDropdown(dropdown => dropdown
+                    .addOption('flags', 'Command-line flags')
+                    .addOption('config', 'Generated .mdformat.toml')
+                    .setValue(this.plugin.settings.mdformatConfigFile ? 'config' : 'flags')
+                    .onChange(async (value) => {
+                        this.plugin.settings.mdformatConfigFile = value === 'config';
+                        await this.plugin.saveSettings();
+                    }));
+        } else if (Platform.isDesktopApp) {
             // Show installation instructions when mdformat is not available
             new Setting(containerEl)
                 .setName('Enhanced formatting')
                 .setDesc('Install mdformat for enhanced formatting:\n\npipx install mdformat\npipx inject mdformat mdformat-frontmatter mdformat-tight-lists');
         }
 
-        // Auto-format settings section
-        containerEl.createEl('h2', { text: 'Auto-Formatting Modes' });
+        if (Platform.isDesktopApp) {
+            new Setting(containerEl)
+                .setName('Use legacy shell script')
+                .setDesc('Format with the md-tight-lists.sh script (requires a Bash shell) instead of the built-in engine. Ignored when mdformat is enabled.')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.useShellScript)
+                    .onChange(async (value) => {
+                        this.plugin.settings.useShellScript = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Formatter timeout')
+                .setDesc('Seconds mdformat or the shell script may run before it is stopped and the format fails. Pipeline steps have their own timeouts.')
+                .addText(text => text
+                    .setValue(String(this.plugin.settings.formatterTimeout))
+                    .onChange(async (value) => {
+                        const timeout = Number(value);
+                        if (timeout > 0) {
+                            this.plugin.settings.formatterTimeout = timeout;
+                            await this.plugin.saveSettings();
+                        }
+                    }));
+
+            new Setting(containerEl)
+                .setName('Concurrent formatter processes')
+                .setDesc('How many external formatter processes may run at the same time; further formats wait for one to finish')
+                .addDropdown(dropdown => {
+                    for (let i = 1; i <= 8; i++) {
+                        dropdown.addOption(String(i), String(i));
+                    }
+                    dropdown
+                        .setValue(String(this.plugin.settings.maxFormatterProcesses))
+                        .onChange(async (value) => {
+                            this.plugin.settings.maxFormatterProcesses = Number(value);
+                            await this.plugin.saveSettings();
+                        });
+                });
+        }
+
+        containerEl.createEl('h2', { text: 'Formatter Pipeline' });
+        containerEl.createEl('p', {
+            text: 'Run formatting steps in order, each on the output of the previous one: the built-in engine and external commands such as prettier or markdownlint-cli2. The first step that fails stops the pipeline and the note is left unchanged. Commands read the note on stdin and print the result, or edit a temporary file passed as {file}; {vault} is the vault root.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Use formatter pipeline')
+            .setDesc('Format with the steps below instead of the built-in engine, mdformat or the shell script')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.usePipeline)
+                .onChange(async (value) => {
+                    this.plugin.settings.usePipeline = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        const pipelineContainer = containerEl.createDiv('pipeline-steps-container');
+        this.displayPipelineSteps(pipelineContainer);
+
+        const addStep = (kind: PipelineStepKind) => async () => {
+            this.plugin.settings.pipeline.push(newPipelineStep(kind));
+            await this.plugin.saveSettings();
+            this.display();
+        };
+        new Setting(containerEl)
+            .setName('Add pipeline step')
+            .addButton(button => button
+                .setButtonText('Built-in engine')
+                .onClick(addStep('builtin')))
+            .addButton(button => button
+                .setButtonText('External command')
+                .setDisabled(!Platform.isDesktopApp)
+                .onClick(addStep('command')));
+
+        containerEl.createEl('h2', { text: 'Check Mode' });
+
+        new Setting(containerEl)
+            .setName('Show list issues without fixing them')
+            .setDesc('Marks lines that formatting would change in the editor gutter and shows the number of issues in the status bar. Notes are only changed with "Fix all list issues" or by formatting.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.checkMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.checkMode = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h2', { text: 'List Normalization' });
+
+        new Setting(containerEl)
+            .setName('Normalize task checkboxes')
+            .setDesc('Write checked tasks as [x] and empty boxes as [ ]')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.normalizeCheckboxes)
+                .onChange(async (value) => {
+                    this.plugin.settings.normalizeCheckboxes = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Ordered list numbering')
+            .setDesc('Renumber ordered list items sequentially from the first item, or number every item 1')
+            .addDropdown(dropdown => dropdown
+                .addOption('keep', 'Keep as is')
+                .addOption('sequential', 'Sequential (1, 2, 3)')
+                .addOption('ones', 'All ones (1, 1, 1)')
+                .setValue(this.plugin.settings.orderedListNumbering)
+                .onChange(async (value) => {
+                    this.plugin.settings.orderedListNumbering = value as OrderedNumbering;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Ordered list delimiter')
+            .setDesc('Write ordered list items as 1. or 1). Adjacent lists keep different delimiters so they are not merged.')
+            .addDropdown(dropdown => dropdown
+                .addOption('keep', 'Keep as is')
+                .addOption('.', 'Period (1.)')
+                .addOption(')', 'Parenthesis (1))')
+                .setValue(this.plugin.settings.orderedListDelimiter)
+                .onChange(async (value) => {
+                    this.plugin.settings.orderedListDelimiter = value as OrderedDelimiter;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Bullet marker')
+            .setDesc('Write unordered list items with a single bullet. Adjacent lists keep different bullets so they are not merged.')
+            .addDropdown(dropdown => dropdown
+                .addOption('keep', 'Keep as is')
+                .addOption('-', 'Hyphen (-)')
+                .addOption('*', 'Asterisk (*)')
+                .addOption('+', 'Plus (+)')
+                .setValue(this.plugin.settings.bulletMarker)
+                .onChange(async (value) => {
+                    this.plugin.settings.bulletMarker = value as BulletMarker;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Alternate bullet markers by depth')
+            .setDesc('Cycle through -, * and + for each nesting level, starting from the bullet marker above')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.alternateBulletMarkers)
+                .onChange(async (value) => {
+                    this.plugin.settings.alternateBulletMarkers = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Nested list indentation')
+            .setDesc('Indent nested lists by a fixed unit. Items under ordered lists are indented at least to their parent\'s text so they stay nested.')
+            .addDropdown(dropdown => dropdown
+                .addOption('keep', 'Keep as is')
+                .addOption('two-spaces', '2 spaces')
+                .addOption('four-spaces', '4 spaces')
+                .addOption('tabs', 'Tabs')
+                .setValue(this.plugin.settings.listIndent)
+                .onChange(async (value) => {
+                    this.plugin.settings.listIndent = value as ListIndent;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Auto-format settings section
+        containerEl.createEl('h2', { text: 'Auto-Formatting Modes' });
+
+        // Show delay-based options
+        new Setting(containerEl)
+            .setName('Delay-based auto-formatting mode')
+            .setDesc('Enable this mode to format the current note file at a fixed interval since your last edit')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableDelayBasedFormatting)
+                .onChange(async (value) => {
+                    // If trying to disable and this is the last enabled mode
+                    if (!value && this.plugin.settings.autoFormatEnabled && !this.plugin.settings.eventBasedFormatting) {
+                        new Notice('At least one formatting mode must be enabled when auto-formatting is active');
+                        toggle.setValue(true);
+                        return;
+                    }
+                    this.plugin.settings.enableDelayBasedFormatting = value;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        if (this.plugin.settings.enableDelayBasedFormatting) {
+            // Debounce delay
+            new Setting(containerEl)
+                .setName(`Auto-format delay (${this.plugin.settings.debounceDelay} second${this.plugin.settings.debounceDelay > 1 ? 's' : ''} since last edit)`)
+                .addSlider(slider => slider
+                    .setLimits(1, 10, 1)
+                    .setValue(this.plugin.settings.debounceDelay)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        this.plugin.settings.debounceDelay = value;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName('Event-based auto-formatting mode')
+            .setDesc('Enable this mode to format the current note file after certain editor actions selected below')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.eventBasedFormatting)
+                .onChange(async (value) => {
+                    // If trying to disable and this is the last enabled mode
+                    if (!value && this.plugin.settings.autoFormatEnabled && !this.plugin.settings.enableDelayBasedFormatting) {
+                        new Notice('At least one formatting mode must be enabled when auto-formatting is active');
+                        toggle.setValue(true);
+                        return;
+                    }
+                    this.plugin.settings.eventBasedFormatting = value;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        if (this.plugin.settings.eventBasedFormatting) {
+            // Show event trigger options
+            new Setting(containerEl)
+                .setName('Format when a note file is opened')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.formatOnFileOpen)
+                    .onChange(async (value) => {
+                        this.plugin.settings.formatOnFileOpen = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Format when the note pane gains focus')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.formatOnFocusGain)
+                    .onChange(async (value) => {
+                        this.plugin.settings.formatOnFocusGain = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Format when the note pane loses focus')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.formatOnFocusLoss)
+                    .onChange(async (value) => {
+                        this.plugin.settings.formatOnFocusLoss = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Format when the note is saved')
+                .setDesc('Formats before the "Save current file" command (Ctrl/Cmd+S) writes the note')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.formatOnSave)
+                    .onChange(async (value) => {
+                        this.plugin.settings.formatOnSave = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Format new notes')
+                .setDesc('Formats a new note once templates have finished inserting their content')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.formatOnCreate)
+                    .onChange(async (value) => {
+                        this.plugin.settings.formatOnCreate = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Format notes changed outside Obsidian')
+                .setDesc('Formats notes that are not open when another app or a sync tool changes them on disk')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.formatOnExternalChange)
+                    .onChange(async (value) => {
+                        this.plugin.settings.formatOnExternalChange = value;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        // Include/exclude rules section
+        containerEl.createEl('h2', { text: 'Include and Exclude Rules' });
+        containerEl.createEl('p', {
+            text: 'Rules are checked from top to bottom and the first matching rule decides whether a note is auto-formatted. They take precedence over folder rules and the global setting; note frontmatter takes precedence over them. Path patterns are globs (**/Templates/**, *.excalidraw.md), tag patterns also match nested tags (#no-format), and property patterns are "key" or "key: value".',
+            cls: 'setting-item-description'
+        });
+
+        const formatRulesContainer = containerEl.createDiv('format-rules-container');
+        const outcomeEl = containerEl.createDiv('setting-item-description');
+        this.displayFormatRules(formatRulesContainer, outcomeEl);
+        this.displayRuleOutcome(outcomeEl);
+
+        new Setting(containerEl)
+            .setName('Add include/exclude rule')
+            .addButton(button => button
+                .setButtonText('Add rule')
+                .onClick(async () => {
+                    this.plugin.settings.formatRules.push({ action: 'exclude', target: 'path', pattern: '', enabled: true });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        // Folder rules section
+        containerEl.createEl('h2', { text: 'Folder-Specific Auto-Formatting' });
+
+        // Add new folder rule button
+        new Setting(containerEl)
+            .setName('Add folder rule')
+            .setDesc('Add a rule to auto-format all note files in specific folder. Each rule can have its own formatting profile; unset profile options use the global settings.')
+            .addButton(button => button
+                .setButtonText('Add rule')
+                .onClick(() => {
+                    this.addFolderRule();
+                }));
+
+        // Display existing folder rules
+        const rulesContainer = containerEl.createDiv('folder-rules-container');
+        this.displayFolderRules(rulesContainer);
+        containerEl.createEl('p', { 
+            text: 'Note: Adding a folder rule enables auto-formatting for all notes in that folder even if global auto-formatting is disabled.',
+            cls: 'mod-warning'
+        });
+    }
+
+    displayFolderRules(container: HTMLElement) {
+        container.empty();
+
+        for (const [folderPath, rule] of Object.entries(this.plugin.settings.folderRules)) {
+            // Create a container for this folder rule
+            const ruleContainer = container.createDiv('folder-rule-container');
+            ruleContainer.style.border = '1px solid var(--background-modifier-border)';
+            ruleContainer.style.borderRadius = '6px';
+            ruleContainer.style.padding = '12px';
+            ruleContainer.style.paddingBottom = '0px';
+            ruleContainer.style.backgroundColor = 'var(--background-secondary)';
+
+            // Folder rule with auto-format toggle, profile editor and remove button
+            const setting = new Setting(ruleContainer)
+                .setName(`${folderPath}/`)
+                .setDesc(describeFolderProfile(rule.profile))
+                .addToggle(toggle => toggle
+                    .setValue(rule.enabled)
+                    .onChange(async (value) => {
+                        this.plugin.settings.folderRules[folderPath].enabled = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addButton(button => button
+                    .setButtonText('Edit profile')
+                    .onClick(() => {
+                        new FolderProfileModal(this.app, this.plugin, folderPath, () => this.display()).open();
+                    }))
+                .addButton(button => button
+                    .setButtonText('Remove rule')
+                    .setWarning()
+                    .onClick(async () => {
+                        delete this.plugin.settings.folderRules[folderPath];
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+
+            // Rules for folders changed outside of Obsidian don't follow them
+            if (!this.validateFolderPath(folderPath)) {
+                setting.descEl.createDiv({
+                    text: 'Folder not found: this rule applies to no notes. Remove it, or recreate the folder.',
+                    cls: 'mod-warning'
+                });
+            }
+        }
+    }
+
+    displayFormatRules(container: HTMLElement, outcomeEl: HTMLElement) {
+        container.empty();
+        const rules = this.plugin.settings.formatRules;
+
+        rules.forEach((rule, index) => {
+            const setting = new Setting(container)
+                .setName(`Rule ${index + 1}`)
+                .addDropdown(dropdown => dropdown
+                    .addOption('include', 'Include')
+                    .addOption('exclude', 'Exclude')
+                    .setValue(rule.action)
+                    .onChange(async (value) => {
+                        rule.action = value as FormatRuleAction;
+                        await this.saveFormatRules(outcomeEl);
+                    }))
+                .addDropdown(dropdown => dropdown
+                    .addOption('path', 'Path glob')
+                    .addOption('tag', 'Tag')
+                    .addOption('property', 'Property')
+                    .setValue(rule.target)
+                    .onChange(async (value) => {
+                        rule.target = value as FormatRuleTarget;
+                        await this.saveFormatRules(outcomeEl);
+                    }))
+                .addText(text => text
+                    .setPlaceholder(rule.target === 'tag' ? '#no-format' : rule.target === 'property' ? 'status: draft' : '**/Templates/**')
+                    .setValue(rule.pattern)
+                    .onChange(async (value) => {
+                        rule.pattern = value;
+                        await this.saveFormatRules(outcomeEl);
+                    }))
+                .addToggle(toggle => toggle
+                    .setTooltip('Enable rule')
+                    .setValue(rule.enabled)
+                    .onChange(async (value) => {
+                        rule.enabled = value;
+                        await this.saveFormatRules(outcomeEl);
+                    }));
+
+            if (index > 0) {
+                setting.addExtraButton(button => button
+                    .setIcon('arrow-up')
+                    .setTooltip('Move up')
+                    .onClick(async () => {
+                        rules.splice(index - 1, 0, ...rules.splice(index, 1));
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+            }
+            if (index < rules.length - 1) {
+                setting.addExtraButton(button => button
+                    .setIcon('arrow-down')
+                    .setTooltip('Move down')
+                    .onClick(async () => {
+                        rules.splice(index + 1, 0, ...rules.splice(index, 1));
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+            }
+            setting.addExtraButton(button => button
+                .setIcon('trash')
+                .setTooltip('Remove rule')
+                .onClick(async () => {
+                    rules.splice(index, 1);
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+        });
+    }
+
+    /**
+     * A toggle for each installed mdformat extension. No extension list in the
+     * settings means every installed extension is enabled.
+     */
+    private displayMdformatExtensions(containerEl: HTMLElement, installed: string[]) {
+        new Setting(containerEl)
+            .setName('mdformat extensions')
+            .setDesc('Extensions found in the mdformat installation. All are enabled unless some are turned off.')
+            .setHeading();
+
+        for (const extension of installed) {
+            const enabled = this.plugin.settings.mdformatExtensions;
+            new Setting(containerEl)
+                .setName(extension)
+                .addToggle(toggle => toggle
+                    .setValue(enabled.length === 0 || enabled.includes(extension))
+                    .onChange(async (value) => {
+                        const stored = this.plugin.settings.mdformatExtensions;
+                        const current = (stored.length === 0 ? installed : stored).filter(name => name !== extension);
+                        const updated = value ? [...current, extension] : current;
+                        if (updated.length === 0) {
+                            // mdformat enables every installed extension when none are given
+                            new Notice('At least one mdformat extension must stay enabled');
+                            toggle.setValue(true);
+                            return;
+                        }
+                        // Everything enabled is stored as no list, so new extensions are enabled too
+                        this.plugin.settings.mdformatExtensions = installed.every(name => updated.includes(name)) ? [] : updated;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        }
+    }
+
+    displayPipelineSteps(container: HTMLElement) {
+        container.empty();
+        const steps = this.plugin.settings.pipeline;
+
+        steps.forEach((step, index) => {
+            const stepContainer = container.createDiv('pipeline-step-container');
+            stepContainer.style.border = '1px solid var(--background-modifier-border)';
+            stepContainer.style.borderRadius = '6px';
+            stepContainer.style.padding = '12px';
+            stepContainer.style.paddingBottom = '0px';
+            stepContainer.style.marginBottom = '8px';
+            stepContainer.style.backgroundColor = 'var(--background-secondary)';
+
+            const header = new Setting(stepContainer)
+                .setName(`Step ${index + 1}`)
+                .setDesc(describeStep(step))
+                .addToggle(toggle => toggle
+                    .setTooltip('Enable step')
+                    .setValue(step.enabled)
+                    .onChange(async (value) => {
+                        step.enabled = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            if (index > 0) {
+                header.addExtraButton(button => button
+                    .setIcon('arrow-up')
+                    .setTooltip('Move up')
+                    .onClick(async () => {
+                        steps.splice(index - 1, 0, ...steps.splice(index, 1));
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+            }
+            if (index < steps.length - 1) {
+                header.addExtraButton(button => button
+                    .setIcon('arrow-down')
+                    .setTooltip('Move down')
+                    .onClick(async () => {
+                        steps.splice(index + 1, 0, ...steps.splice(index, 1));
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+            }
+            header.addExtraButton(button => button
+                .setIcon('trash')
+                .setTooltip('Remove step')
+                .onClick(async () => {
+                    steps.splice(index, 1);
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+            if (step.kind === 'builtin') {
+                return;
+            }
+
+            const saveStep = async () => {
+                header.setDesc(describeStep(step));
+                await this.plugin.saveSettings();
+            };
+
+            new Setting(stepContainer)
+                .setName('Command')
+                .setDesc('Executable name on PATH or its full path')
+                .addText(text => text
+                    .setPlaceholder('prettier')
+                    .setValue(step.command)
+                    .onChange(async (value) => {
+                        step.command = value.trim();
+                        await saveStep();
+                    }));
+
+            new Setting(stepContainer)
+                .setName('Arguments')
+                .setDesc('Quote arguments that contain spaces')
+                .addText(text => text
+                    .setPlaceholder('--parser markdown')
+                    .setValue(step.args)
+                    .onChange(async (value) => {
+                        step.args = value;
+                        await saveStep();
+                    }));
+
+            new Setting(stepContainer)
+                .setName('Input and output')
+                .addDropdown(dropdown => dropdown
+                    .addOption('stdin', 'Note on stdin, result on stdout')
+                    .addOption('file', 'Edit a temporary file in place')
+                    .setValue(step.input)
+                    .onChange(async (value) => {
+                        step.input = value as PipelineStepInput;
+                        await saveStep();
+                    }));
+
+            new Setting(stepContainer)
+                .setName('Timeout')
+                .setDesc('Seconds before the command is stopped and the step fails')
+                .addText(text => text
+                    .setValue(String(step.timeout))
+                    .onChange(async (value) => {
+                        const timeout = Number(value);
+                        if (timeout > 0) {
+                            step.timeout = timeout;
+                            await saveStep();
+                        }
+                    }));
+
+            new Setting(stepContainer)
+                .setName('Working directory')
+                .setDesc('Relative to the vault root; leave empty to run in the vault root')
+                .addText(text => text
+                    .setPlaceholder('Vault root')
+                    .setValue(step.cwd)
+                    .onChange(async (value) => {
+                        step.cwd = value.trim();
+                        await saveStep();
+                    }));
+        });
+    }
+
+    private async saveFormatRules(outcomeEl: HTMLElement) {
+        await this.plugin.saveSettings();
+        this.displayRuleOutcome(outcomeEl);
+    }
+
+    /**
+     * Show what decides auto-formatting for the active note, so rules can be
+     * checked while editing them.
+     */
+    private displayRuleOutcome(outcomeEl: HTMLElement) {
+        outcomeEl.empty();
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== 'md') {
+            outcomeEl.setText('Open a note to see which rule applies to it.');
+            return;
+        }
+
+        const decision = this.plugin.explainAutoFormat(file);
+        outcomeEl.setText(`Active note "${file.path}": auto-format ${decision.enabled ? 'on' : 'off'}, decided by ${decision.reason}.`);
+    }
+
+    private validateFolderPath(folderPath: string): boolean {
+        // Check if path exists in vault as a folder
+        const abstractFile = this.app.vault.getAbstractFileByPath(folderPath);
+        return abstractFile instanceof TFolder;
+    }
+
+    async addFolderRule() {
+        const modal = new FolderRuleModal(this.app, async (folderPath) => {
+            if (!folderPath) {
+                return;
+            }
+
+            // Validate folder path
+            if (!this.validateFolderPath(folderPath)) {
+                new Notice(`Folder not found: "${folderPath}". Please enter a valid folder path.`);
+                return;
+            }
+
+            // Warn about trying to add the root vault folder
+            if (folderPath == "/") {
+                if (this.plugin.settings.autoFormatEnabled) {
+                    new Notice('Vault folder: Global auto-formatting is already enabled.');
+                } else {
+                    new Notice('Vault folder: Enable global auto-formatting instead of adding a folder rule.');
+                }
+                return;
+            }
+
+            // Check if rule already exists
+            if (this.plugin.settings.folderRules[folderPath]) {
+                new Notice(`Folder rule for "${folderPath}" already exists.`);
+                return;
+            }
+
+            // Add the rule
+            this.plugin.settings.folderRules[folderPath] = {
+                enabled: true,
+                profile: {}
+            };
+            await this.plugin.saveSettings();
+            this.display();
+            new Notice(`Added folder rule for "${folderPath}"`);
+        });
+        modal.open();
+    }
+}
+
+class FolderRuleModal extends Modal {
+    constructor(app: App, private onSubmit: (folderPath: string) => void) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: 'Add folder rule' });
+
+        // Add explanation
+        const explanationEl = contentEl.createEl('p', { cls: 'setting-item-description' });
+        explanationEl.innerHTML = `
+            Enter the path to a folder in your vault. This will enable auto-formatting (using the current delay and/or event settings) for all files contained in the folder or any of its subfolders. 
+            <br><br>
+            <strong>Examples:</strong>
+            <br>• <code>Notes</code> - Top-level folder
+            <br>• <code>Notes/Daily</code> - Subfolder
+            <br>• <code>Projects/Work/Documentation</code> - Nested folder
+        `;
+
+        let textInput: HTMLInputElement;
+        new Setting(contentEl)
+            .setName('Folder path')
+            .setDesc('Start typing to choose a folder of your vault')
+            .addText(text => {
+                textInput = text.inputEl;
+                text.setPlaceholder('e.g., Notes/Daily');
+                new FolderPathSuggest(this.app, text.inputEl);
+                text.inputEl.addEventListener('keydown', (e) => {
+                    // Enter that picks a suggestion only fills in the path
+                    if (e.key === 'Enter' && !e.defaultPrevented) {
+                        this.onSubmit(text.getValue().trim());
+                        this.close();
+                    }
+                });
+                // Focus the input
+                setTimeout(() => text.inputEl.focus(), 100);
+            });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => {
+                    this.close();
+                }))
+            .addButton(button => button
+                .setButtonText('Add')
+                .setCta()
+                .onClick(() => {
+                    this.onSubmit(textInput.value.trim());
+                    this.close();
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+    constructor(app: App, private onChoose: (folder: TFolder) => void) {
+        super(app);
+        this.setPlaceholder('Choose a folder to format');
+    }
+
+    getItems(): TFolder[] {
+        return this.app.vault.getAllLoadedFiles()
+            .filter((file): file is TFolder => file instanceof TFolder);
+    }
+
+    getItemText(folder: TFolder): string {
+        return folder.isRoot() ? '/' : folder.path;
+    }
+
+    onChooseItem(folder: TFolder) {
+        this.onChoose(folder);
+    }
+}
+
+/**
+ * Folder paths containing what is typed in a text box, to fill it in with.
+ */
+class FolderPathSuggest extends AbstractInputSuggest<TFolder> {
+    getSuggestions(query: string): TFolder[] {
+        const lowerQuery = query.toLowerCase();
+        return this.app.vault.getAllLoadedFiles()
+            .filter((file): file is TFolder => file instanceof TFolder && !file.isRoot() &&
+                file.path.toLowerCase().includes(lowerQuery));
+    }
+
+    renderSuggestion(folder: TFolder, el: HTMLElement) {
+        el.setText(folder.path);
+    }
+
+    selectSuggestion(folder: TFolder) {
+        this.setValue(folder.path);
+        this.close();
+    }
+}
+
+/**
+ * Side-by-side view of a diff with accept and reject controls for each hunk.
+ * All hunks start accepted.
+ */
+class DiffReview {
+    private accepted: boolean[];
+
+    constructor(private containerEl: HTMLElement, private diff: LineDiff) {
+        this.accepted = diff.hunks.map(() => true);
+        this.render();
+    }
+
+    /** The old text with the accepted hunks applied */
+    get result(): string {
+        return applyHunks(this.diff, this.accepted);
+    }
+
+    setAll(accepted: boolean) {
+        this.accepted = this.accepted.map(() => accepted);
+        this.render();
+    }
+
+    private render() {
+        this.containerEl.empty();
+        const diffEl = this.containerEl.createDiv('tight-lists-diff');
+        this.diff.hunks.forEach((hunk, i) => this.renderHunk(diffEl, hunk, i));
+    }
+
+    private renderHunk(diffEl: HTMLElement, hunk: DiffHunk, index: number) {
+        const hunkEl = diffEl.createDiv('tight-lists-diff-hunk');
+        hunkEl.toggleClass('tight-lists-diff-hunk-rejected', !this.accepted[index]);
+
+        const leadingContext = hunk.lines.findIndex(line => line.type !== 'context');
+        let oldNumber = hunk.oldStart - leadingContext + 1;
+        let newNumber = hunk.newStart - leadingContext + 1;
+
+        new Setting(hunkEl)
+            .setName(`Change ${index + 1} of ${this.diff.hunks.length}`)
+            .setDesc(`Lines ${hunk.oldStart + 1}–${Math.max(hunk.oldEnd, hunk.oldStart + 1)}`)
+            .addButton(button => {
+                button
+                    .setButtonText('Accept')
+                    .onClick(() => this.setAccepted(index, true));
+                if (this.accepted[index]) {
+                    button.setCta();
+                }
+            })
+            .addButton(button => {
+                button
+                    .setButtonText('Reject')
+                    .onClick(() => this.setAccepted(index, false));
+                if (!this.accepted[index]) {
+                    button.setWarning();
+                }
+            });
+
+        const table = hunkEl.createEl('table', { cls: 'tight-lists-diff-table' });
+        const addRow = (left: string | null, right: string | null, type: 'context' | 'change') => {
+            const row = table.createEl('tr');
+            const addCells = (text: string | null, number: number, cls: string) => {
+                row.createEl('td', { text: text === null ? '' : String(number), cls: 'tight-lists-diff-number' });
+                row.createEl('td', {
+                    text: text ?? '',
+                    cls: `tight-lists-diff-line ${text === null ? 'tight-lists-diff-empty' : type === 'change' ? cls : ''}`
+                });
+            };
+            addCells(left, oldNumber, 'tight-lists-diff-delete');
+            addCells(right, newNumber, 'tight-lists-diff-insert');
+            if (left !== null) {
+                oldNumber++;
+            }
+            if (right !== null) {
+                newNumber++;
+            }
+        };
+
+        // Pair deleted lines with the inserted lines that replace them
+        let i = 0;
+        while (i < hunk.lines.length) {
+            if (hunk.lines[i].type === 'context') {
+                addRow(hunk.lines[i].text, hunk.lines[i].text, 'context');
+                i++;
+                continue;
+            }
+            const deleted: string[] = [];
+            const inserted: string[] = [];
+            while (i < hunk.lines.length && hunk.lines[i].type !== 'context') {
+                (hunk.lines[i].type === 'delete' ? deleted : inserted).push(hunk.lines[i].text);
+                i++;
+            }
+            for (let row = 0; row < Math.max(deleted.length, inserted.length); row++) {
+                addRow(deleted[row] ?? null, inserted[row] ?? null, 'change');
+            }
+        }
+    }
+
+    private setAccepted(index: number, accepted: boolean) {
+        this.accepted[index] = accepted;
+        this.render();
+    }
+}
+
+/**
+ * Shows the changes formatting would make to a note and applies the accepted
+ * ones.
+ */
+class FormatPreviewModal extends Modal {
+    private review: DiffReview;
+
+    constructor(app: App, private filePath: string, private diff: LineDiff, private onApply: (result: string) => Promise<void>) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.modalEl.addClass('tight-lists-diff-modal');
+        contentEl.createEl('h2', { text: `Preview formatting: ${this.filePath}` });
+
+        const reviewEl = contentEl.createDiv();
+        this.review = new DiffReview(reviewEl, this.diff);
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Accept all')
+                .onClick(() => this.review.setAll(true)))
+            .addButton(button => button
+                .setButtonText('Reject all')
+                .onClick(() => this.review.setAll(false)))
+            .addButton(button => button
+                .setButtonText('Apply')
+                .setCta()
+                .onClick(async () => {
+                    const result = this.review.result;
+                    this.close();
+                    await this.onApply(result);
+                }))
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+type ReviewChoice = 'apply' | 'skip' | 'apply-remaining' | 'stop';
+
+/**
+ * Formats many notes at once: asks for confirmation, shows progress with a
+ * Cancel button, then lists which files were changed, unchanged, skipped or
+ * failed. Changes can also be reviewed file by file before they are written.
+ */
+class BatchFormatModal extends Modal {
+    private cancelled = false;
+    /** Whether the batch was started, so that its buttons start it only once */
+    private running = false;
+    private resolveReview: ((choice: ReviewChoice) => void) | null = null;
+
+    constructor(app: App, private plugin: TightListsFormatterPlugin, private folder: TFolder, private files: TFile[]) {
+        super(app);
+    }
+
+    private get scopeName(): string {
+        return this.folder.isRoot() ? 'the entire vault' : `"${this.folder.path}"`;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: 'Format notes' });
+        contentEl.createEl('p', {
+            text: `Format ${this.files.length} note${this.files.length === 1 ? '' : 's'} in ${this.scopeName}? Notes excluded by rules, folder rules or their frontmatter are skipped.`
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Format')
+                .setCta()
+                .onClick(() => this.start(() => this.run(this.files, emptyBatchReport()))))
+            .addButton(button => button
+                .setButtonText('Review changes')
+                .onClick(() => this.start(() => this.review())))
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()));
+    }
+
+    onClose() {
+        // Closing the modal cancels a running batch
+        this.cancelled = true;
+        this.resolveReview?.('stop');
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+    /**
+     * Run the batch, unless it was started already: the review keeps these
+     * buttons on screen until its first note is formatted.
+     */
+    private async start(task: () => Promise<void>) {
+        if (this.running) {
+            return;
+        }
+        this.running = true;
+        await this.plugin.withBatchUndo(task);
+    }
+
+    private async run(files: TFile[], report: BatchReport) {
+        const { contentEl } = this;
+        this.modalEl.removeClass('tight-lists-diff-modal');
+        contentEl.empty();
+        contentEl.createEl('h2', { text: `Formatting ${this.scopeName}` });
+        const progressEl = contentEl.createEl('progress', { attr: { max: files.length, value: 0 } });
+        progressEl.style.width = '100%';
+        const statusEl = contentEl.createEl('p', { cls: 'setting-item-description' });
+        const cancelSetting = new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .setWarning()
+                .onClick(() => {
+                    this.cancelled = true;
+                    button.setDisabled(true);
+                    button.setButtonText('Cancelling…');
+                }));
+
+        await this.plugin.formatFiles(files, (done, file) => {
+            progressEl.value = done;
+            statusEl.setText(`${done} / ${files.length}: ${file.path}`);
+        }, () => this.cancelled, report);
+
+        cancelSetting.settingEl.remove();
+        this.showReport(report);
+    }
+
+    /**
+     * Step through the files, showing the diff of each one that formatting
+     * would change and writing only what is applied.
+     */
+    private async review() {
+        this.modalEl.addClass('tight-lists-diff-modal');
+        const report = emptyBatchReport();
+
+        for (let i = 0; i < this.files.length; i++) {
+            if (this.cancelled) {
+                report.cancelled = true;
+                break;
+            }
+
+            const file = this.files[i];
+            const skipReason = this.plugin.getBatchSkipReason(file);
+            if (skipReason) {
+                report.skipped.push({ path: file.path, reason: skipReason });
+                continue;
+            }
+
+            let content: string;
+            let formatted: string;
+            try {
+                content = await this.plugin.readNote(file);
+                formatted = await this.plugin.formatNoteContent(file, content);
+            } catch (error) {
+                console.error('Format error:', error);
+                report.failed.push({ path: file.path, reason: error.message });
+                continue;
+            }
+            if (formatted === content) {
+                report.unchanged.push(file.path);
+                continue;
+            }
+
+            const { contentEl } = this;
+            contentEl.empty();
+            contentEl.createEl('h2', { text: `Review ${i + 1} / ${this.files.length}: ${file.path}` });
+            const review = new DiffReview(contentEl.createDiv(), diffLines(content, formatted));
+            const choice = await new Promise<ReviewChoice>(resolve => {
+                this.resolveReview = resolve;
+                new Setting(contentEl)
+                    .addButton(button => button
+                        .setButtonText('Apply')
+                        .setCta()
+                        .onClick(() => resolve('apply')))
+                    .addButton(button => button
+                        .setButtonText('Skip')
+                        .onClick(() => resolve('skip')))
+                    .addButton(button => button
+                        .setButtonText('Format all remaining')
+                        .onClick(() => resolve('apply-remaining')))
+                    .addButton(button => button
+                        .setButtonText('Stop')
+                        .setWarning()
+                        .onClick(() => resolve('stop')));
+            });
+            this.resolveReview = null;
+
+            if (choice === 'apply') {
+                const result = await this.plugin.writeReviewedContent(file, content, review.result, 'review');
+                if (result.outcome === 'changed' || result.outcome === 'unchanged') {
+                    report[result.outcome].push(file.path);
+                } else {
+                    report.failed.push({ path: file.path, reason: result.reason ?? '' });
+                }
+            } else if (choice === 'skip') {
+                report.skipped.push({ path: file.path, reason: 'skipped in review' });
+            } else if (choice === 'apply-remaining') {
+                await this.run(this.files.slice(i), report);
+                return;
+            } else {
+                report.cancelled = true;
+                break;
+            }
+        }
+
+        // Closing the modal also stops the review; there is nothing left to show
+        if (!this.cancelled) {
+            this.modalEl.removeClass('tight-lists-diff-modal');
+            this.showReport(report);
+        }
+    }
+
+    private showReport(report: BatchReport) {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: report.cancelled ? 'Formatting cancelled' : 'Formatting complete' });
+        contentEl.createEl('p', {
+            text: `${report.changed.length} changed, ${report.unchanged.length} unchanged, ${report.skipped.length} skipped, ${report.failed.length} failed.`
+        });
+
+        const addSection = (title: string, entries: string[]) => {
+            if (entries.length === 0) {
+                return;
+            }
+            const details = contentEl.createEl('details');
+            details.createEl('summary', { text: `${title} (${entries.length})` });
+            const list = details.createEl('ul');
+            for (const entry of entries) {
+                list.createEl('li', { text: entry });
+            }
+        };
+
+        addSection('Failed', report.failed.map(({ path, reason }) => `${path}: ${reason}`));
+        addSection('Changed', report.changed);
+        addSection('Skipped', report.skipped.map(({ path, reason }) => `${path} (${reason})`));
+        addSection('Unchanged', report.unchanged);
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Close')
+                .setCta()
+                .onClick(() => this.close()));
+    }
+}
+
+/**
+ * What the plugin knows about the formatters it runs: the mdformat it found,
+ * a test run on a sample note, and the last failure with its full stderr.
+ */
+class DiagnosticsModal extends Modal {
+    constructor(app: App, private plugin: TightListsFormatterPlugin) {
+        super(app);
+    }
+
+    onOpen() {
+        this.display();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+    private display() {
+        const { contentEl } = this;
+        const plugin = this.plugin;
+        const settings = plugin.settings;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Formatter diagnostics' });
 
-        // Show delay-based options
-        new Setting(containerEl)
-            .setName('Delay-based auto-formatting mode')
-            .setDesc('Enable this mode to format the current note file at a fixed interval since your last edit')
-            .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.enableDelayBasedFormatting)
-                .onChange(async (value) => {
-                    // If trying to disable and this is the last enabled mode
-                    if (!value && this.plugin.settings.autoFormatEnabled && !this.plugin.settings.eventBasedFormatting) {
-                        new Notice('At least one formatting mode must be enabled when auto-formatting is active');
-                        toggle.setValue(true);
-                        return;
-                    }
-                    this.plugin.settings.enableDelayBasedFormatting = value;
-                    await this.plugin.saveSettings();
-                    this.display();
+        const extensions = plugin.mdformatInstalledExtensions;
+        const rows: [string, string][] = [
+            ['Formatter', plugin.getEngineName()],
+            ['mdformat path', plugin.mdformatPath ?? (Platform.isDesktopApp ? 'not found' : 'not available on mobile')],
+            ['Configured path', settings.mdformatExecutable || 'search automatically'],
+            ['mdformat version', plugin.mdformatVersion ?? 'unknown'],
+            ['Installed extensions', extensions ? extensions.join(', ') || 'none' : 'unknown'],
+            ['Enabled extensions', settings.mdformatExtensions.join(', ') || 'all installed'],
+        ];
+        const table = contentEl.createEl('table', { cls: 'tight-lists-diagnostics' });
+        for (const [name, value] of rows) {
+            const row = table.createEl('tr');
+            row.createEl('th', { text: name });
+            row.createEl('td', { text: value });
+        }
+
+        contentEl.createEl('h3', { text: 'Test run' });
+        const testEl = contentEl.createDiv();
+        const resultEl = contentEl.createDiv();
+        new Setting(testEl)
+            .setDesc('Format a sample note with the global settings, without changing any note')
+            .addButton(button => button
+                .setButtonText('Run test')
+                .setCta()
+                .onClick(async () => {
+                    button.setDisabled(true);
+                    await this.runTest(resultEl);
+                    button.setDisabled(false);
                 }));
 
-        if (this.plugin.settings.enableDelayBasedFormatting) {
-            // Debounce delay
-            new Setting(containerEl)
-                .setName(`Auto-format delay (${this.plugin.settings.debounceDelay} second${this.plugin.settings.debounceDelay > 1 ? 's' : ''} since last edit)`)
-                .addSlider(slider => slider
-                    .setLimits(1, 10, 1)
-                    .setValue(this.plugin.settings.debounceDelay)
-                    .setDynamicTooltip()
-                    .onChange(async (value) => {
-                        this.plugin.settings.debounceDelay = value;
-                        await this.plugin.saveSettings();
-                        this.display();
-                    }));
+        contentEl.createEl('h3', { text: 'Last failure' });
+        const failure = plugin.lastFormatterFailure;
+        if (!failure) {
+            contentEl.createEl('p', { text: 'No external formatter has failed since the plugin was loaded.', cls: 'setting-item-description' });
+            return;
         }
+        contentEl.createEl('p', { text: `${new Date(failure.time).toLocaleString()}: ${failure.message}` });
+        contentEl.createEl('pre', { text: [failure.command, ...failure.args].join(' '), cls: 'tight-lists-diagnostics-output' });
+        contentEl.createEl('pre', { text: failure.stderr || '(no stderr output)', cls: 'tight-lists-diagnostics-output' });
+    }
 
-        new Setting(containerEl)
-            .setName('Event-based auto-formatting mode')
-            .setDesc('Enable this mode to format the current note file after certain editor actions selected below')
-            .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.eventBasedFormatting)
-                .onChange(async (value) => {
-                    // If trying to disable and this is the last enabled mode
-                    if (!value && this.plugin.settings.autoFormatEnabled && !this.plugin.settings.enableDelayBasedFormatting) {
-                        new Notice('At least one formatting mode must be enabled when auto-formatting is active');
-                        toggle.setValue(true);
-                        return;
-                    }
-                    this.plugin.settings.eventBasedFormatting = value;
-                    await this.plugin.saveSettings();
-                    this.display();
-                }));
+    private async runTest(resultEl: HTMLElement) {
+        resultEl.empty();
+        resultEl.createEl('p', { text: 'Running…', cls: 'setting-item-description' });
+        const start = performance.now();
+        try {
+            const formatted = await this.plugin.runFormatter(SAMPLE_DOCUMENT);
+            const elapsed = performance.now() - start;
+            resultEl.empty();
+            resultEl.createEl('p', { text: `Formatted in ${elapsed.toFixed(0)} ms` });
+            resultEl.createEl('pre', { text: formatted, cls: 'tight-lists-diagnostics-output' });
+        } catch (error) {
+            const elapsed = performance.now() - start;
+            resultEl.empty();
+            resultEl.createEl('p', { text: `Failed after ${elapsed.toFixed(0)} ms: ${error.message}`, cls: 'mod-warning' });
+        }
+    }
+}
 
-        if (this.plugin.settings.eventBasedFormatting) {
-            // Show event trigger options
-            new Setting(containerEl)
-                .setName('Format when a note file is opened')
-                .addToggle(toggle => toggle
-                    .setValue(this.plugin.settings.formatOnFileOpen)
-                    .onChange(async (value) => {
-                        this.plugin.settings.formatOnFileOpen = value;
-                        await this.plugin.saveSettings();
-                    }));
+/**
+ * The formatting history, newest first, filtered by path, trigger and outcome,
+ * or summed up per note.
+ */
+class FormatHistoryView extends ItemView {
+    private query = '';
+    private trigger: FormatTrigger | 'all' = 'all';
+    private outcome: HistoryOutcome | 'all' = 'all';
+    private showStatistics = false;
+    private listEl: HTMLElement | null = null;
 
-            new Setting(containerEl)
-                .setName('Format when the note pane gains focus')
-                .addToggle(toggle => toggle
-                    .setValue(this.plugin.settings.formatOnFocusGain)
-                    .onChange(async (value) => {
-                        this.plugin.settings.formatOnFocusGain = value;
-                        await this.plugin.saveSettings();
-                    }));
+    constructor(leaf: WorkspaceLeaf, private plugin: TightListsFormatterPlugin) {
+        super(leaf);
+    }
 
-            new Setting(containerEl)
-                .setName('Format when the note pane loses focus')
-                .addToggle(toggle => toggle
-                    .setValue(this.plugin.settings.formatOnFocusLoss)
-                    .onChange(async (value) => {
-                        this.plugin.settings.formatOnFocusLoss = value;
-                        await this.plugin.saveSettings();
-                    }));
-        }
+    getViewType(): string {
+        return VIEW_TYPE_HISTORY;
+    }
 
-        // Folder rules section
-        containerEl.createEl('h2', { text: 'Folder-Specific Auto-Formatting' });
+    getDisplayText(): string {
+        return 'Formatting history';
+    }
 
-        // Add new folder rule button
-        new Setting(containerEl)
-            .setName('Add folder rule')
-            .setDesc('Add a rule to auto-format all note files in specific folder using the selected modes')
-            .addButton(button => button
-                .setButtonText('Add rule')
-                .onClick(() => {
-                    this.addFolderRule();
-                }));
+    getIcon(): string {
+        return 'history';
+    }
 
-        // Display existing folder rules
-        const rulesContainer = containerEl.createDiv('folder-rules-container');
-        this.displayFolderRules(rulesContainer);
-        containerEl.createEl('p', { 
-            text: 'Note: Adding a folder rule enables auto-formatting for all notes in that folder even if global auto-formatting is disabled.',
-            cls: 'mod-warning'
+    async onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('tight-lists-history');
+
+        const filters = contentEl.createDiv({ cls: 'tight-lists-history-filters' });
+        const search = filters.createEl('input', { type: 'search', placeholder: 'Filter by path' });
+        search.addEventListener('input', () => {
+            this.query = search.value;
+            this.refresh();
+        });
+
+        const triggers = new DropdownComponent(filters).addOption('all', 'All triggers');
+        for (const [trigger, name] of Object.entries(TRIGGER_NAMES)) {
+            triggers.addOption(trigger, name);
+        }
+        triggers.onChange(value => {
+            this.trigger = value as FormatTrigger | 'all';
+            this.refresh();
         });
+
+        new DropdownComponent(filters)
+            .addOptions({ all: 'All outcomes', changed: 'Changed', unchanged: 'Unchanged', skipped: 'Skipped', failed: 'Failed' })
+            .onChange(value => {
+                this.outcome = value as HistoryOutcome | 'all';
+                this.refresh();
+            });
+
+        const toggle = new ButtonComponent(filters)
+            .setButtonText('Per note')
+            .onClick(() => {
+                this.showStatistics = !this.showStatistics;
+                toggle.setButtonText(this.showStatistics ? 'Formats' : 'Per note');
+                this.refresh();
+            });
+        new ButtonComponent(filters)
+            .setButtonText('Clear')
+            .setWarning()
+            .onClick(() => {
+                this.plugin.history.clear();
+                this.plugin.historyChanged();
+            });
+
+        this.listEl = contentEl.createDiv();
+        this.refresh();
     }
 
-    displayFolderRules(container: HTMLElement) {
-        container.empty();
+    async onClose() {
+        this.contentEl.empty();
+        this.listEl = null;
+    }
 
-        for (const [folderPath, rule] of Object.entries(this.plugin.settings.folderRules)) {
-            // Create a container for this folder rule
-            const ruleContainer = container.createDiv('folder-rule-container');
-            ruleContainer.style.border = '1px solid var(--background-modifier-border)';
-            ruleContainer.style.borderRadius = '6px';
-            ruleContainer.style.padding = '12px';
-            ruleContainer.style.paddingBottom = '0px';
-            ruleContainer.style.backgroundColor = 'var(--background-secondary)';
+    refresh() {
+        const listEl = this.listEl;
+        if (!listEl) {
+            return;
+        }
+        listEl.empty();
 
-            // Folder rule with auto-format toggle and remove button
-            new Setting(ruleContainer)
-                .setName(`${folderPath}/`)
-                .addToggle(toggle => toggle
-                    .setValue(rule.enabled)
-                    .onChange(async (value) => {
-                        this.plugin.settings.folderRules[folderPath].enabled = value;
-                        await this.plugin.saveSettings();
-                    }))
-                .addButton(button => button
-                    .setButtonText('Remove rule')
-                    .setWarning()
-                    .onClick(async () => {
-                        delete this.plugin.settings.folderRules[folderPath];
-                        await this.plugin.saveSettings();
-                        this.display();
-                    }));
+        const query = this.query.toLowerCase();
+        const entries = this.plugin.history.list().filter(entry =>
+            (this.trigger === 'all' || entry.trigger === this.trigger) &&
+            (this.outcome === 'all' || entry.outcome === this.outcome) &&
+            entry.path.toLowerCase().includes(query));
+        if (entries.length === 0) {
+            listEl.createEl('p', { text: 'No formats to show.', cls: 'setting-item-description' });
+        } else if (this.showStatistics) {
+            this.displayStatistics(listEl, entries);
+        } else {
+            this.displayEntries(listEl, entries);
         }
     }
 
-    private validateFolderPath(folderPath: string): boolean {
-        // Check if path exists in vault as a folder
-        const abstractFile = this.app.vault.getAbstractFileByPath(folderPath);
-        return abstractFile instanceof TFolder;
-    }
+    private displayEntries(listEl: HTMLElement, entries: HistoryEntry[]) {
+        for (const entry of entries) {
+            const item = listEl.createDiv({ cls: `tight-lists-history-entry tight-lists-history-${entry.outcome}` });
+            const header = item.createDiv({ cls: 'tight-lists-history-header' });
+            header.createSpan({ text: new Date(entry.time).toLocaleString() });
+            header.createSpan({ text: entry.reverted ? 'reverted' : entry.outcome, cls: 'tight-lists-history-outcome' });
+            this.createNoteLink(item, entry.path);
 
-    async addFolderRule() {
-        const modal = new FolderRuleModal(this.app, async (folderPath) => {
-            if (!folderPath) {
-                return;
+            const lines = `${entry.linesChanged} line${entry.linesChanged === 1 ? '' : 's'} changed`;
+            item.createDiv({
+                text: [TRIGGER_NAMES[entry.trigger], entry.engine, lines, `${entry.duration} ms`].join(' · '),
+                cls: 'setting-item-description',
+            });
+            if (entry.message) {
+                item.createDiv({ text: entry.message, cls: 'tight-lists-history-message' });
             }
-
-            // Validate folder path
-            if (!this.validateFolderPath(folderPath)) {
-                new Notice(`Folder not found: "${folderPath}". Please enter a valid folder path.`);
-                return;
+            if (entry.revert && !entry.reverted) {
+                new ButtonComponent(item)
+                    .setButtonText('Revert')
+                    .onClick(() => this.plugin.revertHistoryEntry(entry));
             }
+        }
+    }
 
-            // Warn about trying to add the root vault folder
-            if (folderPath == "/") {
-                if (this.plugin.settings.autoFormatEnabled) {
-                    new Notice('Vault folder: Global auto-formatting is already enabled.');
-                } else {
-                    new Notice('Vault folder: Enable global auto-formatting instead of adding a folder rule.');
-                }
-                return;
-            }
+    private displayStatistics(listEl: HTMLElement, entries: HistoryEntry[]) {
+        const table = listEl.createEl('table', { cls: 'tight-lists-history-statistics' });
+        const header = table.createEl('tr');
+        for (const name of ['Note', 'Formats', 'Changed', 'Failed', 'Lines', 'Last']) {
+            header.createEl('th', { text: name });
+        }
+        for (const stats of summarizeByFile(entries)) {
+            const row = table.createEl('tr');
+            this.createNoteLink(row.createEl('td'), stats.path);
+            row.createEl('td', { text: String(stats.formats) });
+            row.createEl('td', { text: String(stats.changed) });
+            row.createEl('td', { text: String(stats.failed) });
+            row.createEl('td', { text: String(stats.linesChanged) });
+            row.createEl('td', { text: new Date(stats.lastTime).toLocaleString() });
+        }
+    }
 
-            // Check if rule already exists
-            if (this.plugin.settings.folderRules[folderPath]) {
-                new Notice(`Folder rule for "${folderPath}" already exists.`);
+    private createNoteLink(parentEl: HTMLElement, notePath: string) {
+        const link = parentEl.createEl('a', { text: notePath, cls: 'tight-lists-history-path' });
+        link.addEventListener('click', async () => {
+            const file = this.app.vault.getAbstractFileByPath(notePath);
+            if (!(file instanceof TFile)) {
+                new Notice(`${notePath} no longer exists`);
                 return;
             }
-
-            // Add the rule
-            this.plugin.settings.folderRules[folderPath] = {
-                enabled: true
-            };
-            await this.plugin.saveSettings();
-            this.display();
-            new Notice(`Added folder rule for "${folderPath}"`);
+            await this.app.workspace.getLeaf(false).openFile(file);
         });
-        modal.open();
     }
 }
 
-class FolderRuleModal extends Modal {
-    constructor(app: App, private onSubmit: (folderPath: string) => void) {
+/**
+ * Edits the profile of a folder rule. Every option can either use the global
+ * setting or set its own value for the folder.
+ */
+class FolderProfileModal extends Modal {
+    constructor(app: App, private plugin: TightListsFormatterPlugin, private folderPath: string, private onChange: () => void) {
         super(app);
     }
 
+    private get profile(): FolderProfile {
+        return this.plugin.settings.folderRules[this.folderPath].profile;
+    }
+
     onOpen() {
         const { contentEl } = this;
-        contentEl.createEl('h2', { text: 'Add folder rule' });
-
-        // Add explanation
-        const explanationEl = contentEl.createEl('p', { cls: 'setting-item-description' });
-        explanationEl.innerHTML = `
-            Enter the path to a folder in your vault. This will enable auto-formatting (using the current delay and/or event settings) for all files contained in the folder or any of its subfolders. 
-            <br><br>
-            <strong>Examples:</strong>
-            <br>• <code>Notes</code> - Top-level folder
-            <br>• <code>Notes/Daily</code> - Subfolder
-            <br>• <code>Projects/Work/Documentation</code> - Nested folder
-        `;
+        contentEl.createEl('h2', { text: `Folder profile: ${this.folderPath}/` });
+        contentEl.createEl('p', {
+            text: 'Options set to "Global" follow the global settings.',
+            cls: 'setting-item-description'
+        });
 
-        let textInput: HTMLInputElement;
+        contentEl.createEl('h3', { text: 'Formatter' });
         new Setting(contentEl)
-            .setName('Folder path')
-            .setDesc('Enter the exact folder path as it appears in your vault')
-            .addText(text => {
-                textInput = text.inputEl;
-                text.setPlaceholder('e.g., Notes/Daily');
-                text.inputEl.addEventListener('keydown', (e) => {
-                    if (e.key === 'Enter') {
-                        this.onSubmit(text.getValue().trim());
-                        this.close();
-                    }
-                });
-                // Focus the input
-                setTimeout(() => text.inputEl.focus(), 100);
+            .setName('Formatting engine')
+            .setDesc('Replaces the global formatter choice, including the formatter pipeline and the shell script.')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', `Global (${this.plugin.getEngineName()})`);
+                for (const [engine, name] of Object.entries(ENGINE_NAMES)) {
+                    dropdown.addOption(engine, name);
+                }
+                dropdown
+                    .setValue(this.profile.engine ?? '')
+                    .onChange(async (value) => {
+                        await this.update('engine', value === '' ? undefined : value as FormatterEngine);
+                    });
             });
-
         new Setting(contentEl)
-            .addButton(button => button
-                .setButtonText('Cancel')
-                .onClick(() => {
-                    this.close();
-                }))
-            .addButton(button => button
-                .setButtonText('Add')
-                .setCta()
-                .onClick(() => {
-                    this.onSubmit(textInput.value.trim());
-                    this.close();
+            .setName('mdformat extensions')
+            .setDesc('Comma-separated extensions for this folder. Leave empty to use the global setting.')
+            .addText(text => text
+                .setPlaceholder('Global')
+                .setValue(this.profile.mdformatExtensions?.join(', ') ?? '')
+                .onChange(async (value) => {
+                    const extensions = parseExtensionList(value);
+                    await this.update('mdformatExtensions', extensions.length > 0 ? extensions : undefined);
                 }));
+
+        contentEl.createEl('h3', { text: 'Auto-formatting' });
+        this.addToggle('Delay-based auto-formatting mode', 'enableDelayBasedFormatting');
+        this.addChoice('Auto-format delay', 'debounceDelay',
+            Array.from({ length: 10 }, (_, i) => [String(i + 1), `${i + 1} second${i > 0 ? 's' : ''}`] as [string, string]));
+        this.addToggle('Event-based auto-formatting mode', 'eventBasedFormatting');
+        this.addToggle('Format when a note file is opened', 'formatOnFileOpen');
+        this.addToggle('Format when the note pane gains focus', 'formatOnFocusGain');
+        this.addToggle('Format when the note pane loses focus', 'formatOnFocusLoss');
+        this.addToggle('Format when the note is saved', 'formatOnSave');
+        this.addToggle('Format new notes', 'formatOnCreate');
+        this.addToggle('Format notes changed outside Obsidian', 'formatOnExternalChange');
+
+        contentEl.createEl('h3', { text: 'List normalization' });
+        this.addToggle('Normalize task checkboxes', 'normalizeCheckboxes');
+        this.addChoice('Ordered list numbering', 'orderedListNumbering',
+            [['keep', 'Keep as is'], ['sequential', 'Sequential (1, 2, 3)'], ['ones', 'All ones (1, 1, 1)']]);
+        this.addChoice('Ordered list delimiter', 'orderedListDelimiter',
+            [['keep', 'Keep as is'], ['.', 'Period (1.)'], [')', 'Parenthesis (1))']]);
+        this.addChoice('Bullet marker', 'bulletMarker',
+            [['keep', 'Keep as is'], ['-', 'Hyphen (-)'], ['*', 'Asterisk (*)'], ['+', 'Plus (+)']]);
+        this.addToggle('Alternate bullet markers by depth', 'alternateBulletMarkers');
+        this.addChoice('Nested list indentation', 'listIndent',
+            [['keep', 'Keep as is'], ['two-spaces', '2 spaces'], ['four-spaces', '4 spaces'], ['tabs', 'Tabs']]);
     }
 
     onClose() {
         const { contentEl } = this;
         contentEl.empty();
+        this.onChange();
+    }
+
+    private addToggle(name: string, key: ProfileSetting) {
+        this.addChoice(name, key, [['true', 'On'], ['false', 'Off']]);
+    }
+
+    /**
+     * Add a dropdown for a profile option, with a first "Global" choice that
+     * removes the option from the profile.
+     */
+    private addChoice(name: string, key: ProfileSetting, choices: [string, string][]) {
+        const current = this.profile[key];
+        new Setting(this.contentEl)
+            .setName(name)
+            .addDropdown(dropdown => {
+                dropdown.addOption('', `Global (${this.describeGlobal(key, choices)})`);
+                for (const [value, label] of choices) {
+                    dropdown.addOption(value, label);
+                }
+                dropdown
+                    .setValue(current === undefined ? '' : String(current))
+                    .onChange(async (value) => {
+                        await this.update(key, value === '' ? undefined : this.parseValue(key, value));
+                    });
+            });
+    }
+
+    private describeGlobal(key: ProfileSetting, choices: [string, string][]): string {
+        const value = String(this.plugin.settings[key]);
+        const choice = choices.find(([option]) => option === value);
+        return choice ? choice[1] : value;
+    }
+
+    private parseValue(key: ProfileSetting, value: string): FolderProfile[ProfileSetting] {
+        if (typeof DEFAULT_SETTINGS[key] === 'boolean') {
+            return value === 'true';
+        }
+        if (typeof DEFAULT_SETTINGS[key] === 'number') {
+            return Number(value);
+        }
+        return value as FolderProfile[ProfileSetting];
+    }
+
+    private async update<K extends keyof FolderProfile>(key: K, value: FolderProfile[K] | undefined) {
+        if (value === undefined) {
+            delete this.profile[key];
+        } else {
+            this.profile[key] = value;
+        }
+        await this.plugin.saveSettings();
     }
 }
@@ -0,0 +1,93 @@
+/**
+ * mdformat command line: which extensions an installation has, and the flags
+ * or `.mdformat.toml` that pass the formatting options to it.
+ */
+
+export type MdformatEndOfLine = 'lf' | 'crlf' | 'keep';
+
+export interface MdformatOptions {
+    /** `keep`, `no`, or a line length */
+    wrap: string;
+    /** Number ordered lists 1, 2, 3 instead of 1, 1, 1 */
+    number: boolean;
+    endOfLine: MdformatEndOfLine;
+    /** Extensions to enable; empty for every installed one */
+    extensions: string[];
+}
+
+/**
+ * Installed extensions as listed by `mdformat --help`, whose `--extensions`
+ * help ends with "Installed extensions: a, b", wrapped over several lines when
+ * long. Falls back to the plugin packages in `mdformat --version`, as in
+ * "mdformat 0.7.17 (mdformat_frontmatter: 2.0.8, mdformat_tables: 0.4.1)".
+ * Null when neither output lists them.
+ */
+export function parseInstalledExtensions(help: string, version = ''): string[] | null {
+    const match = help.match(/installed extensions:\s*([\s\S]*?)(?:\n\s*\n|\n\s*-|$)/i);
+    if (match) {
+        return uniqueNames(match[1].split(/[^\w.-]+/));
+    }
+
+    const plugins = version.match(/\(([^)]*)\)/);
+    if (plugins) {
+        return uniqueNames(plugins[1].split(',').map(plugin => plugin.split(':')[0].trim().replace(/^mdformat[_-]/, '')));
+    }
+    // A version without plugins
+    return /^mdformat \S+\s*$/.test(version.trim()) ? [] : null;
+}
+
+function uniqueNames(names: string[]): string[] {
+    const unique: string[] = [];
+    for (const name of names) {
+        const trimmed = name.trim().replace(/\.+$/, '');
+        if (/^[\w.-]+$/.test(trimmed) && !unique.includes(trimmed)) {
+            unique.push(trimmed);
+        }
+    }
+    return unique;
+}
+
+/**
+ * Command line flags for the options that differ from mdformat's defaults, so
+ * that a `.mdformat.toml` in the vault still decides the others.
+ */
+export function mdformatFlags(options: MdformatOptions): string[] {
+    const flags: string[] = [];
+    if (options.wrap !== 'keep') {
+        flags.push('--wrap', options.wrap);
+    }
+    if (options.number) {
+        flags.push('--number');
+    }
+    if (options.endOfLine !== 'lf') {
+        flags.push('--end-of-line', options.endOfLine);
+    }
+    for (const extension of options.extensions) {
+        flags.push('--extensions', extension);
+    }
+    return flags;
+}
+
+/**
+ * The same options as a `.mdformat.toml` file.
+ */
+export function mdformatToml(options: MdformatOptions): string {
+    const wrap = /^\d+$/.test(options.wrap) ? options.wrap : `"${options.wrap}"`;
+    const lines = [
+        '# Generated by the Tight Lists Formatter plugin',
+        `wrap = ${wrap}`,
+        `number = ${options.number}`,
+        `end_of_line = "${options.endOfLine}"`,
+    ];
+    if (options.extensions.length > 0) {
+        lines.push(`extensions = [${options.extensions.map(extension => `"${extension}"`).join(', ')}]`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Whether the wrap option is `keep`, `no` or a positive line length.
+ */
+export function isValidWrap(wrap: string): boolean {
+    return wrap === 'keep' || wrap === 'no' || /^[1-9]\d*$/.test(wrap);
+}
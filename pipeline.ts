@@ -0,0 +1,93 @@
+/**
+ * Formatter pipeline: steps that run one after the other, each formatting the
+ * output of the one before it.
+ *
+ * A step is either the built-in engine or an external command. A command reads
+ * the note from stdin and prints the result, or, with `file` input, edits a
+ * temporary copy of the note whose path is passed as `{file}` in its arguments,
+ * or after them when they have no `{file}` (for tools like
+ * `markdownlint-cli2 --fix` that only fix files in place). `{vault}` is the
+ * vault root.
+ */
+
+export type PipelineStepKind = 'builtin' | 'command';
+
+export type PipelineStepInput = 'stdin' | 'file';
+
+export interface PipelineStep {
+    kind: PipelineStepKind;
+    /** Executable, looked up on PATH unless it is a path */
+    command: string;
+    /** Arguments as typed, split like a shell does (see `parseArguments`) */
+    args: string;
+    input: PipelineStepInput;
+    /** Seconds before the command is stopped */
+    timeout: number;
+    /** Directory to run in, relative to the vault root; empty for the vault root */
+    cwd: string;
+    enabled: boolean;
+}
+
+export const DEFAULT_STEP_TIMEOUT = 10;
+
+export function newPipelineStep(kind: PipelineStepKind): PipelineStep {
+    return { kind, command: '', args: '', input: 'stdin', timeout: DEFAULT_STEP_TIMEOUT, cwd: '', enabled: true };
+}
+
+/**
+ * Split an argument string on whitespace. Single and double quotes group
+ * words, and a backslash outside single quotes escapes the next character.
+ */
+export function parseArguments(text: string): string[] {
+    const args: string[] = [];
+    let current = '';
+    let inArgument = false;
+    let quote: '"' | '\'' | null = null;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            if (char === quote) {
+                quote = null;
+            } else if (char === '\\' && quote === '"' && i + 1 < text.length) {
+                current += text[++i];
+            } else {
+                current += char;
+            }
+        } else if (char === '"' || char === '\'') {
+            quote = char;
+            inArgument = true;
+        } else if (char === '\\' && i + 1 < text.length) {
+            current += text[++i];
+            inArgument = true;
+        } else if (/\s/.test(char)) {
+            if (inArgument) {
+                args.push(current);
+                current = '';
+                inArgument = false;
+            }
+        } else {
+            current += char;
+            inArgument = true;
+        }
+    }
+    if (inArgument) {
+        args.push(current);
+    }
+    return args;
+}
+
+/**
+ * Replace `{name}` placeholders in arguments. Unknown placeholders are kept.
+ */
+export function expandArguments(args: string[], values: Record<string, string>): string[] {
+    return args.map(arg => arg.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder));
+}
+
+export function describeStep(step: PipelineStep): string {
+    if (step.kind === 'builtin') {
+        return 'built-in engine';
+    }
+    return [step.command || '(no command)', step.args].filter(part => part !== '').join(' ');
+}
@@ -0,0 +1,151 @@
+/**
+ * Include/exclude rules that decide whether a note is auto-formatted.
+ *
+ * Rules are checked in order and the first enabled rule that matches decides.
+ * A rule matches on one of:
+ *
+ * - `path`: a glob over the vault path (`**` spans folders, `*` and `?` stay
+ *   within one path segment); a pattern without `/` matches the file name, and
+ *   a pattern ending in `/` matches everything below that folder
+ * - `tag`: a tag with or without `#`, also matching its nested tags
+ *   (`#project` matches `#project/alpha`); globs are allowed
+ * - `property`: a frontmatter property, either `key` (present and not false or
+ *   empty) or `key: value` / `key=value`, where the value may be a glob and list
+ *   properties match on any element
+ */
+
+export type FormatRuleAction = 'include' | 'exclude';
+export type FormatRuleTarget = 'path' | 'tag' | 'property';
+
+export interface FormatRule {
+    action: FormatRuleAction;
+    target: FormatRuleTarget;
+    pattern: string;
+    enabled: boolean;
+}
+
+/** What rules are matched against, read from the note's metadata. */
+export interface RuleSubject {
+    path: string;
+    /** Tags from the body and frontmatter, with or without `#` */
+    tags: string[];
+    frontmatter: Record<string, unknown>;
+}
+
+export interface RuleMatch {
+    rule: FormatRule;
+    index: number;
+}
+
+/**
+ * Convert a glob to an anchored regular expression. With `segments`, `*` and
+ * `?` do not match `/`.
+ */
+export function globToRegExp(glob: string, segments = true): RegExp {
+    const any = segments ? '[^/]*' : '.*';
+    const one = segments ? '[^/]' : '.';
+    let source = '';
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            // `**/` also matches no folder at all
+            if (glob[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            source += any;
+        } else if (char === '?') {
+            source += one;
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\/]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${source}$`, 'i');
+}
+
+function matchesPath(pattern: string, path: string): boolean {
+    let glob = pattern.replace(/^\/+/, '');
+    if (glob.endsWith('/')) {
+        glob += '**';
+    }
+    if (!glob.includes('/')) {
+        const name = path.slice(path.lastIndexOf('/') + 1);
+        return globToRegExp(glob).test(name);
+    }
+    return globToRegExp(glob).test(path);
+}
+
+function matchesTag(pattern: string, tags: string[]): boolean {
+    const regex = globToRegExp(pattern.replace(/^#/, ''), false);
+    return tags.some(tag => {
+        const name = tag.replace(/^#/, '');
+        if (regex.test(name)) {
+            return true;
+        }
+        // A parent tag matches its nested tags
+        const parts = name.split('/');
+        for (let i = parts.length - 1; i > 0; i--) {
+            if (regex.test(parts.slice(0, i).join('/'))) {
+                return true;
+            }
+        }
+        return false;
+    });
+}
+
+function matchesProperty(pattern: string, frontmatter: Record<string, unknown>): boolean {
+    const separator = pattern.search(/[:=]/);
+    const key = (separator === -1 ? pattern : pattern.slice(0, separator)).trim();
+    const entry = Object.entries(frontmatter).find(([name]) => name.toLowerCase() === key.toLowerCase());
+    if (!entry) {
+        return false;
+    }
+
+    const values = (Array.isArray(entry[1]) ? entry[1] : [entry[1]])
+        .filter(value => value !== null && value !== undefined);
+    if (separator === -1) {
+        return values.some(value => value !== false && value !== '');
+    }
+
+    const regex = globToRegExp(pattern.slice(separator + 1).trim(), false);
+    return values.some(value => regex.test(String(value).trim()));
+}
+
+export function ruleMatches(rule: FormatRule, subject: RuleSubject): boolean {
+    const pattern = rule.pattern.trim();
+    if (pattern === '') {
+        return false;
+    }
+
+    switch (rule.target) {
+        case 'path':
+            return matchesPath(pattern, subject.path);
+        case 'tag':
+            return matchesTag(pattern, subject.tags);
+        case 'property':
+            return matchesProperty(pattern, subject.frontmatter);
+    }
+}
+
+/**
+ * The first enabled rule matching the subject, or null when no rule applies.
+ */
+export function findMatchingRule(rules: FormatRule[], subject: RuleSubject): RuleMatch | null {
+    for (let index = 0; index < rules.length; index++) {
+        const rule = rules[index];
+        if (rule.enabled && ruleMatches(rule, subject)) {
+            return { rule, index };
+        }
+    }
+    return null;
+}
+
+export function describeRule(rule: FormatRule): string {
+    return `${rule.action} ${rule.target} ${rule.pattern.trim() || '(empty)'}`;
+}